@@ -4,8 +4,12 @@
 import { extractDesignTokens } from './services/designTokenExtractor';
 import { generateCssVariables } from './transformers/tokensToCSS';
 import { generateTailwindConfig } from './transformers/tokensToTailwind';
+import { generateTailwindTheme } from './transformers/tokensToTailwindV4';
+import { generateDtcgTokens } from './transformers/tokensToDTCG';
 import { generateReactComponent } from './services/componentGenerator';
+import { generateResponsiveComponent } from './services/responsive/responsiveComponent';
 import { PaymentStatus } from './types/figmaTypes';
+import { getCodegenOptions } from './utils/codegenOptions';
 
 // Map to store pending format requests
 const formatRequests = new Map();
@@ -197,29 +201,43 @@ Thank you for using React Tailwind Generator!`,
       }
     }
     
+    // Resolve the output options chosen in the codegen preferences
+    const options = getCodegenOptions(figma.codegen.preferences);
+    const useTailwindV4 = options.tailwindVersion === 'v4';
+    const componentLanguage = options.language === 'typescript' ? 'TYPESCRIPT' : 'JAVASCRIPT';
+    
     // Extract design tokens
     const tokens = await extractDesignTokens();
     
     // Generate CSS variables
-    const cssVariables = await generateCssVariables(tokens);
+    const cssVariables = await generateCssVariables(tokens, options);
+    
+    // Generate Tailwind config (v3) or @theme stylesheet (v4)
+    const tailwindConfig = useTailwindV4 ?
+      generateTailwindTheme(tokens, options) :
+      generateTailwindConfig(tokens, options);
     
-    // Generate Tailwind config
-    const tailwindConfig = await generateTailwindConfig(tokens);
+    // Generate W3C design tokens (DTCG) JSON
+    const dtcgTokens = generateDtcgTokens(tokens, options);
     
-    // Generate the React component
-    const rawReactCode = await generateReactComponent(node, tokens, true);
+    // Generate the React component; several breakpoint frames become one responsive component
+    const breakpointFrames = getBreakpointFrames(node);
+    const rawReactCode = breakpointFrames ?
+      await generateResponsiveComponent(breakpointFrames, tokens, options) :
+      await generateReactComponent(node, tokens, true, undefined, options);
     
     // Format each code snippet using the UI thread
-    const formattedReactCode = await formatCodeInUI(rawReactCode, 'TYPESCRIPT');
+    const formattedReactCode = await formatCodeInUI(rawReactCode, componentLanguage);
     const formattedCssVariables = await formatCodeInUI(cssVariables, 'CSS');
-    const formattedTailwindConfig = await formatCodeInUI(tailwindConfig, 'TYPESCRIPT');
+    const formattedTailwindConfig = await formatCodeInUI(tailwindConfig, useTailwindV4 ? 'CSS' : 'TYPESCRIPT');
+    const formattedDtcgTokens = await formatCodeInUI(dtcgTokens, 'JSON');
     
     // Return an array of CodegenResult objects
     return [
       {
         title: 'React + Tailwind',
         code: formattedReactCode,
-        language: 'TYPESCRIPT',
+        language: componentLanguage,
       },
       {
         title: 'CSS Variables',
@@ -227,9 +245,14 @@ Thank you for using React Tailwind Generator!`,
         language: 'CSS',
       },
       {
-        title: 'Tailwind Config',
+        title: useTailwindV4 ? 'Tailwind Theme' : 'Tailwind Config',
         code: formattedTailwindConfig,
-        language: 'JAVASCRIPT',
+        language: useTailwindV4 ? 'CSS' : 'JAVASCRIPT',
+      },
+      {
+        title: 'Design Tokens (DTCG)',
+        code: formattedDtcgTokens,
+        language: 'JSON',
       }
     ];
   } catch (error: unknown) {
@@ -243,6 +266,21 @@ Thank you for using React Tailwind Generator!`,
 });
 
 
+/**
+ * Frames selected together with the inspected one that draw the same screen at
+ * different widths, or undefined when the node should be generated on its own
+ */
+function getBreakpointFrames(node: SceneNode): SceneNode[] | undefined {
+  const { selection } = figma.currentPage;
+  if (selection.length < 2 || !selection.includes(node)) {
+    return undefined;
+  }
+
+  const frames = selection.filter(selected => selected.type === 'FRAME' && selected.parent === node.parent);
+  const widths = new Set(frames.map(frame => frame.width));
+  return frames.length === selection.length && widths.size === frames.length ? frames : undefined;
+}
+
 function hasValidSelection(nodes: readonly SceneNode[]): boolean {
   return !(!nodes || nodes.length === 0)
 }
@@ -346,6 +384,8 @@ figma.codegen.on('preferenceschange', async (event) => {
             node.name.toLowerCase().includes('logo') ||
             // Check if it has export settings (user explicitly marked for export)
             (node.exportSettings && node.exportSettings.length > 0) ||
+            // Vector masks are referenced as CSS mask images
+            ('isMask' in node && node.isMask) ||
             // For vector-type nodes, check if they're small and likely icons
             ((node.type === 'VECTOR' || node.type === 'BOOLEAN_OPERATION') && 
              'width' in node && 'height' in node && 
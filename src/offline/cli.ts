@@ -0,0 +1,141 @@
+/**
+ * @file cli.ts
+ * Command line entry point for the offline runner.
+ *
+ * Usage:
+ *   node dist/offline.js <file.json> --out <dir> [--variables <variables.json>]
+ *     [--node <id>]... [--tailwind v3|v4] [--language typescript|javascript]
+ *     [--class-names tokens|arbitrary] [--unit px|rem] [--rem-base 16]
+ *     [--responsive] [--screens <tailwind.config.js>]
+ *     [--corner-smoothing rounded|clip-path] [--state-property State]
+ *     [--variants cva|slots] [--verbose]
+ */
+
+import * as path from 'path';
+import { runOffline } from './runner';
+import { CodegenOptions, Breakpoints } from '../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS, TAILWIND_BREAKPOINTS, parseScreens } from '../utils/codegenOptions';
+
+interface CliArgs {
+  filePath?: string;
+  variablesPath?: string;
+  outDir: string;
+  nodeIds: string[];
+  responsive: boolean;
+  options: CodegenOptions;
+  verbose: boolean;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    outDir: 'generated',
+    nodeIds: [],
+    responsive: false,
+    options: { ...DEFAULT_CODEGEN_OPTIONS },
+    verbose: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      return value;
+    };
+
+    switch (arg) {
+      case '--out':
+        args.outDir = next();
+        break;
+      case '--variables':
+        args.variablesPath = next();
+        break;
+      case '--node':
+        args.nodeIds.push(next());
+        break;
+      case '--tailwind':
+        args.options.tailwindVersion = next() === 'v4' ? 'v4' : 'v3';
+        break;
+      case '--language':
+        args.options.language = next() === 'javascript' ? 'javascript' : 'typescript';
+        break;
+      case '--class-names':
+        args.options.classNameStrategy = next() === 'arbitrary' ? 'arbitrary' : 'tokens';
+        break;
+      case '--unit':
+        args.options.unit = next() === 'rem' ? 'rem' : 'px';
+        break;
+      case '--rem-base':
+        args.options.remBase = Number(next()) || DEFAULT_CODEGEN_OPTIONS.remBase;
+        break;
+      case '--responsive':
+        args.responsive = true;
+        break;
+      case '--screens':
+        args.options.breakpoints = loadScreens(next());
+        break;
+      case '--corner-smoothing':
+        args.options.cornerSmoothing = next() === 'clip-path' ? 'clip-path' : 'rounded';
+        break;
+      case '--state-property':
+        args.options.stateProperty = next();
+        break;
+      case '--variants':
+        args.options.variantOutput = next() === 'slots' ? 'slots' : 'cva';
+        break;
+      case '--verbose':
+        args.verbose = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          throw new Error(`Unknown option ${arg}`);
+        }
+        args.filePath = arg;
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Read breakpoints from the `screens` of a Tailwind config, or from a JSON file of screens.
+ * Screens under `theme.extend` are added to Tailwind's defaults.
+ */
+function loadScreens(configPath: string): Breakpoints {
+  const config = require(path.resolve(configPath));
+  const theme = config.theme || {};
+
+  if (theme.screens) return parseScreens(theme.screens);
+  if (theme.extend?.screens) return { ...TAILWIND_BREAKPOINTS, ...parseScreens(theme.extend.screens) };
+  return parseScreens(config);
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.filePath) {
+    console.error('Usage: node dist/offline.js <file.json> --out <dir> [--variables <variables.json>] [--node <id>]');
+    process.exitCode = 1;
+    return;
+  }
+
+  // The generators log every node they visit when debugging
+  args.options.debug = args.verbose;
+
+  const written = await runOffline({
+    filePath: args.filePath,
+    variablesPath: args.variablesPath,
+    outDir: args.outDir,
+    nodeIds: args.nodeIds,
+    responsive: args.responsive,
+    options: args.options
+  });
+
+  written.forEach(filePath => console.info(`Wrote ${filePath}`));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,110 @@
+/**
+ * @file figmaShim.ts
+ * A stand-in for the `figma` global backed by a REST file snapshot.
+ * It implements the style, variable and viewport lookups used by the
+ * token extractor and style extractor; nothing else is available.
+ */
+
+import { RestFile, RestLocalVariables } from './restTypes';
+import { RestDocument } from './restAdapter';
+
+// The style fields the extractors read. Values are filled in from the first node
+// that uses the style.
+type ShimStyle = Pick<BaseStyle, 'id' | 'key' | 'name' | 'description' | 'remote' | 'type'> &
+  Partial<Pick<PaintStyle, 'paints'>> &
+  Partial<Pick<EffectStyle, 'effects'>> &
+  Partial<Pick<TextStyle, 'fontName' | 'fontSize' | 'lineHeight' | 'letterSpacing' | 'textCase' |
+    'textDecoration' | 'paragraphSpacing' | 'paragraphIndent'>> &
+  { resolved?: boolean };
+
+/**
+ * Create the `figma` stand-in. Styles take their values from the first node that uses
+ * them, since the file endpoint only returns style metadata.
+ */
+export function createFigmaShim(
+  file: RestFile,
+  document: RestDocument,
+  mixed: symbol,
+  localVariables?: RestLocalVariables
+): Partial<PluginAPI> {
+  const styles = buildStyles(file, document);
+  const variables = localVariables?.meta.variables || {};
+  const collections = localVariables?.meta.variableCollections || {};
+
+  // Use the bounds of the first top-level node as the viewport
+  const firstBounds = document.roots.find(root => root.absoluteBoundingBox)?.absoluteBoundingBox;
+
+  return {
+    mixed: mixed as PluginAPI['mixed'],
+    viewport: {
+      bounds: firstBounds || { x: 0, y: 0, width: 1440, height: 900 },
+      center: { x: 0, y: 0 },
+      zoom: 1
+    } as ViewportAPI,
+    getStyleByIdAsync: async (id: string) => (styles.get(id) as BaseStyle | undefined) || null,
+    getLocalPaintStylesAsync: async () => getStylesOfType(styles, 'PAINT') as PaintStyle[],
+    getLocalTextStylesAsync: async () => getStylesOfType(styles, 'TEXT') as TextStyle[],
+    getLocalEffectStylesAsync: async () => getStylesOfType(styles, 'EFFECT') as EffectStyle[],
+    getNodeByIdAsync: async (id: string) => document.nodesById.get(id) || null,
+    variables: {
+      getLocalVariableCollectionsAsync: async () =>
+        Object.values(collections).filter(collection => !collection.remote),
+      getVariableCollectionByIdAsync: async (id: string) => collections[id] || null,
+      getVariableByIdAsync: async (id: string) => variables[id] || null
+    } as VariablesAPI
+  };
+}
+
+/**
+ * Build plugin-style style objects keyed by style id
+ */
+function buildStyles(file: RestFile, document: RestDocument): Map<string, ShimStyle> {
+  const styles = new Map<string, ShimStyle>();
+
+  Object.entries(file.styles || {}).forEach(([id, meta]) => {
+    const type = meta.styleType === 'FILL' ? 'PAINT' : meta.styleType;
+    styles.set(id, {
+      id,
+      key: meta.key,
+      name: meta.name,
+      description: meta.description || '',
+      remote: meta.remote || false,
+      type
+    });
+  });
+
+  // Fill in style values from the nodes that reference them
+  document.nodesById.forEach(node => {
+    const assign = (styleId: string | symbol, values: Partial<ShimStyle>) => {
+      const style = typeof styleId === 'string' && styles.get(styleId);
+      if (style && !style.resolved) {
+        Object.assign(style, values, { resolved: true });
+      }
+    };
+
+    if ('fillStyleId' in node) assign(node.fillStyleId, { paints: node.fills as readonly Paint[] });
+    if ('strokeStyleId' in node) assign(node.strokeStyleId, { paints: node.strokes });
+    if ('effectStyleId' in node) assign(node.effectStyleId, { effects: node.effects });
+    if (node.type === 'TEXT') {
+      assign(node.textStyleId, {
+        fontName: node.fontName as FontName,
+        fontSize: node.fontSize as number,
+        lineHeight: node.lineHeight as LineHeight,
+        letterSpacing: node.letterSpacing as LetterSpacing,
+        textCase: node.textCase as TextCase,
+        textDecoration: node.textDecoration as TextDecoration,
+        paragraphSpacing: node.paragraphSpacing,
+        paragraphIndent: node.paragraphIndent
+      });
+    }
+  });
+
+  return styles;
+}
+
+/**
+ * Styles of one type that were used somewhere in the file
+ */
+function getStylesOfType(styles: Map<string, ShimStyle>, type: StyleType): ShimStyle[] {
+  return Array.from(styles.values()).filter(style => style.type === type && style.resolved);
+}
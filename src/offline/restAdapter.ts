@@ -0,0 +1,464 @@
+/**
+ * @file restAdapter.ts
+ * Converts nodes from a Figma REST API file into objects shaped like the plugin API's
+ * SceneNode, so the generators in services/ can run outside of Figma.
+ * Only the properties and methods the generators read are provided.
+ */
+
+import {
+  RestColor,
+  RestEffect,
+  RestFile,
+  RestNode,
+  RestPaint,
+  RestRectangle,
+  RestTypeStyle,
+  RestVector
+} from './restTypes';
+
+export interface RestDocument {
+  // Top-level nodes of every page
+  roots: SceneNode[];
+  nodesById: Map<string, SceneNode>;
+}
+
+/**
+ * A node being built in plugin API form. Fields are added per node type as the
+ * REST node is adapted; the fields read while adapting are listed.
+ */
+interface AdaptedNode extends Record<string, unknown> {
+  id: string;
+  name: string;
+  type: string;
+  parent: AdaptedNode | null;
+  children?: SceneNode[];
+  absoluteBoundingBox?: RestRectangle | null;
+  characters?: string;
+  fills?: Paint[];
+  fillStyleId?: string;
+  textStyleId?: string;
+}
+
+// Text properties of one run, as returned by getStyledTextSegments
+type AdaptedTextSegment = Record<string, unknown>;
+
+// Node types that carry auto layout, padding and clipping
+const FRAME_TYPES = ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE'];
+
+// REST node types that are named differently in the plugin API
+const NODE_TYPE_MAP: Record<string, string> = {
+  REGULAR_POLYGON: 'POLYGON'
+};
+
+// Constraint names used by the REST API mapped to plugin API names
+const CONSTRAINT_MAP: Record<string, string> = {
+  LEFT: 'MIN',
+  TOP: 'MIN',
+  RIGHT: 'MAX',
+  BOTTOM: 'MAX',
+  CENTER: 'CENTER',
+  LEFT_RIGHT: 'STRETCH',
+  TOP_BOTTOM: 'STRETCH',
+  SCALE: 'SCALE'
+};
+
+// Font style names for files that don't include `fontStyle`
+const FONT_STYLE_NAMES: Record<number, string> = {
+  100: 'Thin',
+  200: 'Extra Light',
+  300: 'Light',
+  400: 'Regular',
+  500: 'Medium',
+  600: 'Semi Bold',
+  700: 'Bold',
+  800: 'Extra Bold',
+  900: 'Black'
+};
+
+/**
+ * Adapt every page of a REST file. Nodes keep their REST ids, and style ids
+ * (fillStyleId, textStyleId, ...) point at the keys of `file.styles`.
+ */
+export function adaptRestFile(file: RestFile, mixed: symbol): RestDocument {
+  const nodesById = new Map<string, SceneNode>();
+  const roots: SceneNode[] = [];
+
+  for (const page of file.document.children || []) {
+    const pageChildren: SceneNode[] = [];
+    const pageNode: AdaptedNode = {
+      id: page.id,
+      name: page.name,
+      type: 'PAGE',
+      parent: null,
+      children: pageChildren
+    };
+
+    for (const child of page.children || []) {
+      const node = adaptRestNode(child, pageNode, nodesById, mixed);
+      pageChildren.push(node);
+      roots.push(node);
+    }
+  }
+
+  return { roots, nodesById };
+}
+
+/**
+ * Adapt a single REST node and its subtree
+ */
+function adaptRestNode(
+  rest: RestNode,
+  parent: AdaptedNode,
+  nodesById: Map<string, SceneNode>,
+  mixed: symbol
+): SceneNode {
+  const type = NODE_TYPE_MAP[rest.type] || rest.type;
+  const bounds = rest.absoluteBoundingBox || { x: 0, y: 0, width: 0, height: 0 };
+  const parentBounds = parent.absoluteBoundingBox;
+
+  // The bounding box of a rotated node is larger than the node and starts at a
+  // different corner, so prefer the transform and unrotated size when exported
+  const relativeTransform = rest.relativeTransform || [
+    [1, 0, parentBounds ? bounds.x - parentBounds.x : bounds.x],
+    [0, 1, parentBounds ? bounds.y - parentBounds.y : bounds.y]
+  ];
+  const x = relativeTransform[0][2];
+  const y = relativeTransform[1][2];
+  const width = rest.size ? rest.size.x : bounds.width;
+  const height = rest.size ? rest.size.y : bounds.height;
+
+  const node: AdaptedNode = {
+    id: rest.id,
+    name: rest.name,
+    type,
+    parent,
+    removed: false,
+    visible: rest.visible !== false,
+    opacity: rest.opacity ?? 1,
+    blendMode: rest.blendMode || 'PASS_THROUGH',
+    isMask: rest.isMask || false,
+    x,
+    y,
+    width,
+    height,
+    rotation: Math.atan2(-relativeTransform[1][0], relativeTransform[0][0]) * (180 / Math.PI),
+    relativeTransform,
+    absoluteBoundingBox: rest.absoluteBoundingBox || null,
+    // Older files don't export render bounds, so fall back to the bounding box
+    absoluteRenderBounds: rest.absoluteRenderBounds !== undefined ?
+      rest.absoluteRenderBounds :
+      rest.absoluteBoundingBox || null,
+    constraints: {
+      horizontal: CONSTRAINT_MAP[rest.constraints?.horizontal || 'LEFT'] || 'MIN',
+      vertical: CONSTRAINT_MAP[rest.constraints?.vertical || 'TOP'] || 'MIN'
+    },
+    minWidth: rest.minWidth ?? null,
+    maxWidth: rest.maxWidth ?? null,
+    minHeight: rest.minHeight ?? null,
+    maxHeight: rest.maxHeight ?? null,
+    targetAspectRatio: null,
+    layoutAlign: rest.layoutAlign || 'INHERIT',
+    layoutGrow: rest.layoutGrow ?? 0,
+    layoutPositioning: rest.layoutPositioning || 'AUTO',
+    layoutSizingHorizontal: rest.layoutSizingHorizontal || 'FIXED',
+    layoutSizingVertical: rest.layoutSizingVertical || 'FIXED',
+    gridRowSpan: rest.gridRowSpan ?? 1,
+    gridColumnSpan: rest.gridColumnSpan ?? 1,
+    effects: (rest.effects || []).map(adaptEffect),
+    effectStyleId: rest.styles?.effect || '',
+    boundVariables: rest.boundVariables || {},
+    exportSettings: []
+  };
+
+  // Handle fills and strokes (groups have neither)
+  if (type !== 'GROUP') {
+    node.fills = (rest.fills || []).map(adaptPaint);
+    node.fillStyleId = rest.styles?.fill || '';
+    node.strokes = (rest.strokes || []).map(adaptPaint);
+    node.strokeStyleId = rest.styles?.stroke || '';
+    node.strokeWeight = rest.strokeWeight ?? 0;
+    node.strokeAlign = rest.strokeAlign || 'INSIDE';
+    node.strokeDashes = rest.strokeDashes || [];
+    if (rest.individualStrokeWeights) {
+      node.strokeTopWeight = rest.individualStrokeWeights.top;
+      node.strokeRightWeight = rest.individualStrokeWeights.right;
+      node.strokeBottomWeight = rest.individualStrokeWeights.bottom;
+      node.strokeLeftWeight = rest.individualStrokeWeights.left;
+      node.strokeWeight = mixed;
+    }
+  }
+
+  // Handle corner radius
+  if (FRAME_TYPES.includes(type) || type === 'RECTANGLE') {
+    const radius = rest.cornerRadius ?? 0;
+    const [topLeft, topRight, bottomRight, bottomLeft] = rest.rectangleCornerRadii || [radius, radius, radius, radius];
+    const uniform = topLeft === topRight && topRight === bottomRight && bottomRight === bottomLeft;
+    node.cornerRadius = uniform ? topLeft : mixed;
+    node.topLeftRadius = topLeft;
+    node.topRightRadius = topRight;
+    node.bottomRightRadius = bottomRight;
+    node.bottomLeftRadius = bottomLeft;
+    node.cornerSmoothing = rest.cornerSmoothing ?? 0;
+  }
+
+  // Handle auto layout
+  if (FRAME_TYPES.includes(type)) {
+    node.layoutMode = rest.layoutMode || 'NONE';
+    node.layoutWrap = rest.layoutWrap || 'NO_WRAP';
+    node.primaryAxisSizingMode = rest.primaryAxisSizingMode || 'FIXED';
+    node.counterAxisSizingMode = rest.counterAxisSizingMode || 'FIXED';
+    node.primaryAxisAlignItems = rest.primaryAxisAlignItems || 'MIN';
+    node.counterAxisAlignItems = rest.counterAxisAlignItems || 'MIN';
+    node.itemSpacing = rest.itemSpacing ?? 0;
+    node.counterAxisSpacing = rest.counterAxisSpacing ?? null;
+    node.gridRowCount = rest.gridRowCount ?? 0;
+    node.gridColumnCount = rest.gridColumnCount ?? 0;
+    node.gridRowGap = rest.gridRowGap ?? 0;
+    node.gridColumnGap = rest.gridColumnGap ?? 0;
+    node.paddingLeft = rest.paddingLeft ?? 0;
+    node.paddingRight = rest.paddingRight ?? 0;
+    node.paddingTop = rest.paddingTop ?? 0;
+    node.paddingBottom = rest.paddingBottom ?? 0;
+    node.strokesIncludedInLayout = rest.strokesIncludedInLayout ?? false;
+    node.clipsContent = rest.clipsContent ?? false;
+  }
+
+  // Handle text
+  if (type === 'TEXT') {
+    Object.assign(node, adaptTextProperties(rest));
+    adaptTextSegments(rest, node, mixed);
+  }
+
+  // Handle components and instances
+  if (type === 'COMPONENT' || type === 'COMPONENT_SET') {
+    node.componentPropertyDefinitions = rest.componentPropertyDefinitions || {};
+  }
+
+  if (type === 'COMPONENT') {
+    node.variantProperties = parent.type === 'COMPONENT_SET' ? parseVariantName(rest.name) : null;
+  }
+
+  if (type === 'INSTANCE') {
+    const getMainComponent = () =>
+      ((rest.componentId && nodesById.get(rest.componentId)) || null) as ComponentNode | null;
+    node.componentProperties = rest.componentProperties || {};
+    Object.defineProperty(node, 'mainComponent', { get: getMainComponent, enumerable: false });
+    Object.defineProperty(node, 'variantProperties', {
+      get: () => getMainComponent()?.variantProperties || null,
+      enumerable: false
+    });
+    node.getMainComponentAsync = async () => getMainComponent();
+  }
+
+  node.componentPropertyReferences = rest.componentPropertyReferences || null;
+
+  nodesById.set(rest.id, node as unknown as SceneNode);
+
+  // Adapt children after registering the node so they can link back to it
+  if (rest.children) {
+    node.children = rest.children.map(child => adaptRestNode(child, node, nodesById, mixed));
+  }
+
+  return node as unknown as SceneNode;
+}
+
+/**
+ * Text properties in plugin API form, taken from the node's base type style
+ */
+function adaptTextProperties(rest: RestNode): AdaptedTextSegment {
+  const style: RestTypeStyle = rest.style || {};
+
+  return {
+    characters: rest.characters || '',
+    fontSize: style.fontSize ?? 12,
+    fontName: { family: style.fontFamily || 'Inter', style: getFontStyleName(style) },
+    fontWeight: style.fontWeight ?? 400,
+    textAlignHorizontal: style.textAlignHorizontal || 'LEFT',
+    textAlignVertical: style.textAlignVertical || 'TOP',
+    textAutoResize: style.textAutoResize || 'NONE',
+    textCase: style.textCase || 'ORIGINAL',
+    textDecoration: style.textDecoration || 'NONE',
+    textTruncation: style.textTruncation || 'DISABLED',
+    maxLines: style.maxLines ?? null,
+    paragraphSpacing: style.paragraphSpacing ?? 0,
+    paragraphIndent: style.paragraphIndent ?? 0,
+    letterSpacing: { unit: 'PIXELS', value: style.letterSpacing ?? 0 },
+    lineHeight: getLineHeight(style),
+    hyperlink: style.hyperlink ? { type: style.hyperlink.type, value: style.hyperlink.url || style.hyperlink.nodeID } : null,
+    textStyleId: rest.styles?.text || '',
+    listSpacing: 0,
+    hangingList: false,
+    leadingTrim: 'NONE'
+  };
+}
+
+// Text fields that read as `figma.mixed` when they differ between runs
+const TEXT_SEGMENT_FIELDS = [
+  'fontSize', 'fontName', 'fontWeight', 'fills', 'fillStyleId', 'textStyleId',
+  'letterSpacing', 'lineHeight', 'hyperlink', 'textDecoration', 'textCase'
+];
+
+/**
+ * Split a text node into styled segments. REST files key each character into
+ * `styleOverrideTable`, where 0 or a missing entry means the node's base style.
+ */
+function adaptTextSegments(rest: RestNode, node: AdaptedNode, mixed: symbol): void {
+  const characters = node.characters || '';
+  const overrides = rest.characterStyleOverrides || [];
+  const overrideAt = (index: number) => overrides[index] || 0;
+  const segments: AdaptedTextSegment[] = [];
+
+  let start = 0;
+  for (let end = 1; end <= characters.length; end++) {
+    if (end < characters.length && overrideAt(end) === overrideAt(start)) {
+      continue;
+    }
+
+    const override = rest.styleOverrideTable?.[overrideAt(start)];
+    segments.push({
+      ...adaptTextProperties({ ...rest, style: { ...rest.style, ...override } }),
+      characters: characters.slice(start, end),
+      start,
+      end,
+      fills: override?.fills ? override.fills.map(adaptPaint) : node.fills,
+      // Overridden runs no longer follow the node's styles
+      fillStyleId: override?.fills ? '' : node.fillStyleId,
+      textStyleId: override ? '' : node.textStyleId
+    });
+    start = end;
+  }
+
+  TEXT_SEGMENT_FIELDS.forEach(field => {
+    if (new Set(segments.map(segment => JSON.stringify(segment[field]))).size > 1) {
+      node[field] = mixed;
+    }
+  });
+  node.getStyledTextSegments = (fields: string[]) => segments.map(segment => {
+    const picked: AdaptedTextSegment = { characters: segment.characters, start: segment.start, end: segment.end };
+    fields.forEach(field => {
+      picked[field] = segment[field];
+    });
+    return picked;
+  });
+}
+
+function getFontStyleName(style: RestTypeStyle): string {
+  if (style.fontStyle) {
+    return style.fontStyle;
+  }
+
+  const weightName = FONT_STYLE_NAMES[Math.round((style.fontWeight ?? 400) / 100) * 100] || 'Regular';
+  if (!style.italic) {
+    return weightName;
+  }
+  return weightName === 'Regular' ? 'Italic' : `${weightName} Italic`;
+}
+
+function getLineHeight(style: RestTypeStyle): LineHeight {
+  if (style.lineHeightUnit === 'FONT_SIZE_%' && style.lineHeightPercentFontSize !== undefined) {
+    return { unit: 'PERCENT', value: style.lineHeightPercentFontSize };
+  }
+  if (style.lineHeightUnit === 'PIXELS' && style.lineHeightPx !== undefined) {
+    return { unit: 'PIXELS', value: style.lineHeightPx };
+  }
+  return { unit: 'AUTO' };
+}
+
+/**
+ * Parse variant properties from a variant component name
+ * Example: "Size=Large, State=Hover" -> { Size: "Large", State: "Hover" }
+ */
+function parseVariantName(name: string): Record<string, string> | null {
+  const properties: Record<string, string> = {};
+
+  name.split(',').forEach(part => {
+    const [key, ...value] = part.split('=');
+    if (key && value.length > 0) {
+      properties[key.trim()] = value.join('=').trim();
+    }
+  });
+
+  return Object.keys(properties).length > 0 ? properties : null;
+}
+
+/**
+ * Convert a REST paint. REST colors carry their own alpha, while plugin
+ * solid paints keep alpha in `opacity`.
+ */
+export function adaptPaint(paint: RestPaint): Paint {
+  const base = {
+    visible: paint.visible !== false,
+    opacity: paint.opacity ?? 1,
+    blendMode: paint.blendMode || 'NORMAL',
+    boundVariables: paint.boundVariables || {}
+  };
+
+  if (paint.type === 'SOLID' && paint.color) {
+    const { r, g, b, a } = paint.color;
+    return { ...base, type: 'SOLID', color: { r, g, b }, opacity: base.opacity * (a ?? 1) } as SolidPaint;
+  }
+
+  if (paint.type.startsWith('GRADIENT_')) {
+    return {
+      ...base,
+      type: paint.type,
+      gradientStops: (paint.gradientStops || []).map(stop => ({ position: stop.position, color: toRgba(stop.color) })),
+      gradientTransform: handlesToGradientTransform(paint.gradientHandlePositions || [])
+    } as GradientPaint;
+  }
+
+  if (paint.type === 'IMAGE') {
+    return {
+      ...base,
+      type: 'IMAGE',
+      scaleMode: paint.scaleMode === 'STRETCH' ? 'CROP' : paint.scaleMode || 'FILL',
+      imageHash: paint.imageRef || null
+    } as ImagePaint;
+  }
+
+  return { ...base, type: paint.type } as unknown as Paint;
+}
+
+function adaptEffect(effect: RestEffect): Effect {
+  return {
+    ...effect,
+    color: effect.color ? toRgba(effect.color) : { r: 0, g: 0, b: 0, a: 0.25 },
+    offset: effect.offset || { x: 0, y: 0 },
+    spread: effect.spread ?? 0,
+    blendMode: effect.blendMode || 'NORMAL',
+    showShadowBehindNode: effect.showShadowBehindNode ?? false
+  } as Effect;
+}
+
+function toRgba(color: RestColor): RGBA {
+  return { r: color.r, g: color.g, b: color.b, a: color.a ?? 1 };
+}
+
+/**
+ * Convert REST gradient handles (start, end, width) to the plugin's gradientTransform.
+ * In gradient space the gradient runs from (0, 0.5) to (1, 0.5) and the width handle
+ * sits at (0, 1); the handles give the mapping to node space, which is then inverted.
+ */
+function handlesToGradientTransform(handles: RestVector[]): Transform {
+  if (handles.length < 3) {
+    return [[1, 0, 0], [0, 1, 0]];
+  }
+
+  const [start, end, width] = handles;
+  const a = end.x - start.x;
+  const d = end.y - start.y;
+  const b = 2 * (width.x - start.x);
+  const e = 2 * (width.y - start.y);
+  const c = start.x - b / 2;
+  const f = start.y - e / 2;
+
+  const determinant = a * e - b * d;
+  if (determinant === 0) {
+    return [[1, 0, 0], [0, 1, 0]];
+  }
+
+  return [
+    [e / determinant, -b / determinant, (b * f - c * e) / determinant],
+    [-d / determinant, a / determinant, (c * d - a * f) / determinant]
+  ];
+}
@@ -0,0 +1,214 @@
+/**
+ * @file restTypes.ts
+ * Minimal shapes of the Figma REST API responses the offline runner reads:
+ * `GET /v1/files/:key` and (optionally) `GET /v1/files/:key/variables/local`.
+ * Only the fields the adapter uses are listed.
+ */
+
+export interface RestColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface RestVector {
+  x: number;
+  y: number;
+}
+
+export interface RestRectangle {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RestColorStop {
+  position: number;
+  color: RestColor;
+}
+
+export interface RestPaint {
+  type: 'SOLID' | 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR' | 'GRADIENT_DIAMOND' | 'IMAGE' | 'EMOJI' | 'VIDEO';
+  visible?: boolean;
+  opacity?: number;
+  blendMode?: string;
+  color?: RestColor;
+  gradientHandlePositions?: RestVector[];
+  gradientStops?: RestColorStop[];
+  scaleMode?: 'FILL' | 'FIT' | 'TILE' | 'STRETCH';
+  imageRef?: string;
+  boundVariables?: Record<string, unknown>;
+}
+
+export interface RestEffect {
+  type: 'DROP_SHADOW' | 'INNER_SHADOW' | 'LAYER_BLUR' | 'BACKGROUND_BLUR';
+  visible: boolean;
+  radius: number;
+  color?: RestColor;
+  offset?: RestVector;
+  spread?: number;
+  blendMode?: string;
+  showShadowBehindNode?: boolean;
+}
+
+export interface RestTypeStyle {
+  fontFamily?: string;
+  fontPostScriptName?: string | null;
+  fontStyle?: string;
+  fontWeight?: number;
+  fontSize?: number;
+  italic?: boolean;
+  textAlignHorizontal?: 'LEFT' | 'RIGHT' | 'CENTER' | 'JUSTIFIED';
+  textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
+  letterSpacing?: number;
+  lineHeightPx?: number;
+  lineHeightPercent?: number;
+  lineHeightPercentFontSize?: number;
+  lineHeightUnit?: 'PIXELS' | 'FONT_SIZE_%' | 'INTRINSIC_%';
+  textCase?: string;
+  textDecoration?: string;
+  textAutoResize?: string;
+  textTruncation?: string;
+  maxLines?: number;
+  paragraphSpacing?: number;
+  paragraphIndent?: number;
+  fills?: RestPaint[];
+  hyperlink?: { type: 'URL' | 'NODE'; url?: string; nodeID?: string };
+}
+
+export interface RestComponentProperty {
+  type: 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT';
+  value: string | boolean;
+  preferredValues?: unknown[];
+}
+
+export interface RestComponentPropertyDefinition {
+  type: 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT';
+  defaultValue: string | boolean;
+  variantOptions?: string[];
+  preferredValues?: unknown[];
+}
+
+/**
+ * A document node. Which fields are present depends on the node type.
+ */
+export interface RestNode {
+  id: string;
+  name: string;
+  type: string;
+  visible?: boolean;
+  children?: RestNode[];
+
+  // Geometry
+  absoluteBoundingBox?: RestRectangle | null;
+  absoluteRenderBounds?: RestRectangle | null;
+  relativeTransform?: number[][];
+  // Size before rotation; only exported with geometry=paths
+  size?: { x: number; y: number };
+  rotation?: number;
+  constraints?: { vertical: string; horizontal: string };
+
+  // Appearance
+  opacity?: number;
+  blendMode?: string;
+  isMask?: boolean;
+  fills?: RestPaint[];
+  strokes?: RestPaint[];
+  strokeWeight?: number;
+  individualStrokeWeights?: { top: number; right: number; bottom: number; left: number };
+  strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
+  strokeDashes?: number[];
+  effects?: RestEffect[];
+  cornerRadius?: number;
+  rectangleCornerRadii?: number[];
+  cornerSmoothing?: number;
+  clipsContent?: boolean;
+  styles?: Record<string, string>;
+  boundVariables?: Record<string, unknown>;
+
+  // Auto layout
+  layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL' | 'GRID';
+  layoutWrap?: 'NO_WRAP' | 'WRAP';
+  primaryAxisSizingMode?: 'FIXED' | 'AUTO';
+  counterAxisSizingMode?: 'FIXED' | 'AUTO';
+  primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
+  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  itemSpacing?: number;
+  counterAxisSpacing?: number;
+  gridRowCount?: number;
+  gridColumnCount?: number;
+  gridRowGap?: number;
+  gridColumnGap?: number;
+  gridRowSpan?: number;
+  gridColumnSpan?: number;
+  paddingLeft?: number;
+  paddingRight?: number;
+  paddingTop?: number;
+  paddingBottom?: number;
+  strokesIncludedInLayout?: boolean;
+  layoutAlign?: 'INHERIT' | 'STRETCH' | 'MIN' | 'CENTER' | 'MAX';
+  layoutGrow?: number;
+  layoutPositioning?: 'AUTO' | 'ABSOLUTE';
+  layoutSizingHorizontal?: 'FIXED' | 'HUG' | 'FILL';
+  layoutSizingVertical?: 'FIXED' | 'HUG' | 'FILL';
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+
+  // Text
+  characters?: string;
+  style?: RestTypeStyle;
+  characterStyleOverrides?: number[];
+  styleOverrideTable?: Record<string, RestTypeStyle>;
+
+  // Components
+  componentId?: string;
+  componentProperties?: Record<string, RestComponentProperty>;
+  componentPropertyDefinitions?: Record<string, RestComponentPropertyDefinition>;
+  componentPropertyReferences?: Record<string, string>;
+}
+
+export interface RestStyleMetadata {
+  key: string;
+  name: string;
+  styleType: 'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
+  description?: string;
+  remote?: boolean;
+}
+
+export interface RestFile {
+  name: string;
+  document: RestNode;
+  styles?: Record<string, RestStyleMetadata>;
+}
+
+export interface RestVariable {
+  id: string;
+  name: string;
+  key: string;
+  variableCollectionId: string;
+  resolvedType: 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR';
+  valuesByMode: Record<string, unknown>;
+  description?: string;
+  remote?: boolean;
+}
+
+export interface RestVariableCollection {
+  id: string;
+  name: string;
+  key: string;
+  modes: { modeId: string; name: string }[];
+  defaultModeId: string;
+  variableIds: string[];
+  remote?: boolean;
+}
+
+export interface RestLocalVariables {
+  meta: {
+    variables: Record<string, RestVariable>;
+    variableCollections: Record<string, RestVariableCollection>;
+  };
+}
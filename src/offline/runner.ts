@@ -0,0 +1,154 @@
+/**
+ * @file runner.ts
+ * Runs the generators against a saved Figma REST file instead of the live plugin API
+ * and writes the same React, CSS, Tailwind and token output the plugin shows.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { format } from 'prettier';
+import { RestFile, RestLocalVariables } from './restTypes';
+import { adaptRestFile } from './restAdapter';
+import { createFigmaShim } from './figmaShim';
+import { extractDesignTokens } from '../services/designTokenExtractor';
+import { generateReactComponent } from '../services/componentGenerator';
+import { generateResponsiveComponent } from '../services/responsive/responsiveComponent';
+import { generateCssVariables } from '../transformers/tokensToCSS';
+import { generateTailwindConfig } from '../transformers/tokensToTailwind';
+import { generateTailwindTheme } from '../transformers/tokensToTailwindV4';
+import { generateDtcgTokens } from '../transformers/tokensToDTCG';
+import { generateComponentName } from '../utils/nameUtils';
+import { CodegenOptions } from '../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../utils/codegenOptions';
+
+export interface OfflineRunConfig {
+  // Saved output of GET /v1/files/:key
+  filePath: string;
+  // Saved output of GET /v1/files/:key/variables/local
+  variablesPath?: string;
+  // Directory the generated files are written to
+  outDir: string;
+  // Nodes to generate components for; defaults to every component and component set
+  nodeIds?: string[];
+  // Combine the nodes into one responsive component, one breakpoint per node
+  responsive?: boolean;
+  options?: CodegenOptions;
+}
+
+/**
+ * Generate code for a file snapshot and return the paths that were written
+ */
+export async function runOffline(config: OfflineRunConfig): Promise<string[]> {
+  const options = config.options || DEFAULT_CODEGEN_OPTIONS;
+  const file = await readJson<RestFile>(config.filePath);
+  const localVariables = config.variablesPath ?
+    await readJson<RestLocalVariables>(config.variablesPath) :
+    undefined;
+
+  // Adapt the REST document and install the `figma` stand-in the services read from
+  const mixed = Symbol('figma.mixed');
+  const document = adaptRestFile(file, mixed);
+  Object.assign(globalThis, { figma: createFigmaShim(file, document, mixed, localVariables) });
+
+  const written: string[] = [];
+  const writeOutput = async (relativePath: string, code: string, parser: string) => {
+    const outputPath = path.join(config.outDir, relativePath);
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, await formatOutput(code, parser), 'utf8');
+    written.push(outputPath);
+  };
+
+  // Generate token outputs
+  const tokens = await extractDesignTokens();
+  await writeOutput('tokens.css', generateCssVariables(tokens, options), 'css');
+  await writeOutput('tokens.json', generateDtcgTokens(tokens, options), 'json');
+  if (options.tailwindVersion === 'v4') {
+    await writeOutput('tailwind.css', generateTailwindTheme(tokens, options), 'css');
+  } else {
+    await writeOutput('tailwind.config.js', generateTailwindConfig(tokens, options), 'babel');
+  }
+
+  // Generate one file per component
+  const extension = options.language === 'typescript' ? 'tsx' : 'jsx';
+  const componentParser = options.language === 'typescript' ? 'babel-ts' : 'babel';
+  const usedNames = new Set<string>();
+  const targetNodes = getTargetNodes(document.roots, document.nodesById, config.nodeIds);
+  if (config.responsive) {
+    const code = await generateResponsiveComponent(targetNodes, tokens, options);
+    const fileName = code.match(/^function (\w+)/m)?.[1] || 'Component';
+    await writeOutput(path.join('components', `${fileName}.${extension}`), code, componentParser);
+    return written;
+  }
+
+  for (const node of targetNodes) {
+    const code = await generateReactComponent(node, tokens, true, undefined, options);
+    if (!code.trim()) continue;
+
+    const fileName = getUniqueName(generateComponentName(node.name), usedNames);
+    await writeOutput(path.join('components', `${fileName}.${extension}`), code, componentParser);
+  }
+
+  return written;
+}
+
+/**
+ * Resolve the nodes to generate. Without explicit ids, every component set and
+ * standalone component is used, falling back to the top-level frames.
+ */
+function getTargetNodes(
+  roots: SceneNode[],
+  nodesById: Map<string, SceneNode>,
+  nodeIds?: string[]
+): SceneNode[] {
+  if (nodeIds && nodeIds.length > 0) {
+    return nodeIds.map(id => {
+      const node = nodesById.get(id);
+      if (!node) {
+        throw new Error(`Node ${id} was not found in the file`);
+      }
+      return node;
+    });
+  }
+
+  const components: SceneNode[] = [];
+  const visit = (node: SceneNode) => {
+    if (node.type === 'COMPONENT_SET' ||
+        (node.type === 'COMPONENT' && node.parent?.type !== 'COMPONENT_SET')) {
+      components.push(node);
+      return;
+    }
+    // Instances only reference components, so their subtrees are skipped
+    if (node.type !== 'INSTANCE' && 'children' in node) {
+      node.children.forEach(visit);
+    }
+  };
+  roots.forEach(visit);
+
+  return components.length > 0 ? components : roots.filter(root => root.type === 'FRAME');
+}
+
+function getUniqueName(name: string, usedNames: Set<string>): string {
+  let uniqueName = name;
+  let suffix = 2;
+  while (usedNames.has(uniqueName)) {
+    uniqueName = `${name}${suffix++}`;
+  }
+  usedNames.add(uniqueName);
+  return uniqueName;
+}
+
+/**
+ * Format generated code with prettier, keeping the raw output if it doesn't parse
+ */
+async function formatOutput(code: string, parser: string): Promise<string> {
+  try {
+    return await format(code, { parser, printWidth: 80, semi: true });
+  } catch (error) {
+    console.warn(`Could not format ${parser} output:`, error instanceof Error ? error.message : error);
+    return code;
+  }
+}
+
+async function readJson<T>(filePath: string): Promise<T> {
+  return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+}
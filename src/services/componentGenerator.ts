@@ -2,12 +2,15 @@ import { extractStyles } from './styleExtractor';
 import { stylesToTailwind } from '../transformers/stylesToTailwind';
 import { generateComponentName } from '../utils/nameUtils';
 import { DesignTokens } from '../types/designTokenTypes';
+import { CodegenOptions } from '../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../utils/codegenOptions';
 import { 
   isNodeVisible, 
   getNodeBounds, 
   isNodeOutsideBounds, 
   getComponentProps, 
   getComponentSet,
+  hasPositionedChildren,
   Bounds
 } from './utils/nodeUtils';
 import { formatCode, cleanupTailwindClasses } from './utils/styleUtils';
@@ -18,7 +21,11 @@ import { isImageNode } from './components/imageComponent';
 /**
  * Helper function to extract image assets from nodes with image fills
  */
-async function extractImageAssets(node: SceneNode, styles: any): Promise<void> {
+async function extractImageAssets(
+  node: SceneNode,
+  styles: any,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): Promise<void> {
   // Skip if no fills property
   if (!('fills' in node)) return;
   
@@ -32,7 +39,9 @@ async function extractImageAssets(node: SceneNode, styles: any): Promise<void> {
   try {
     // Check if the image has a hash
     if ('imageHash' in imageFill && imageFill.imageHash) {
-      console.log(`Found image fill with hash: ${imageFill.imageHash}`);
+      if (options.debug) {
+        console.log(`Found image fill with hash: ${imageFill.imageHash}`);
+      }
       
       // Set background image hash in styles
       styles.backgroundImage = true;
@@ -43,7 +52,9 @@ async function extractImageAssets(node: SceneNode, styles: any): Promise<void> {
         // For nodes that can be exported directly
         if ('exportAsync' in node) {
           // This would be implemented based on your specific asset export and management needs
-          console.log(`Exporting image from node: ${node.name}`);
+          if (options.debug) {
+            console.log(`Exporting image from node: ${node.name}`);
+          }
           // Example: const pngData = await node.exportAsync({ format: 'PNG' });
           // Then store or process this image data
         }
@@ -63,6 +74,30 @@ async function extractImageAssets(node: SceneNode, styles: any): Promise<void> {
   }
 }
 
+/**
+ * Generate the props interface of a frame or instance component for TypeScript
+ * output, typing each prop from the attribute it is passed as
+ * Example: ['size="Small"', 'disabled', 'icon={<IconStar />}'] -> size?: string; disabled?: boolean; icon?: React.ReactNode;
+ */
+function generatePropsInterface(componentName: string, props: string[]): string {
+  let propsInterface = `interface ${componentName}Props {\n`;
+  props.forEach(prop => {
+    const separator = prop.indexOf('=');
+    const name = separator === -1 ? prop : prop.slice(0, separator);
+    const value = separator === -1 ? '' : prop.slice(separator + 1);
+    
+    let type = 'string';
+    if (!value || value === '{false}') {
+      type = 'boolean';
+    } else if (value.startsWith('{<')) {
+      type = 'React.ReactNode';
+    }
+    propsInterface += `  ${name}?: ${type};\n`;
+  });
+  propsInterface += `}\n\n`;
+  return propsInterface;
+}
+
 /**
  * Main function to generate a React component from a Figma node
  */
@@ -70,21 +105,24 @@ export async function generateReactComponent(
   node: SceneNode,
   tokens: DesignTokens,
   isRoot: boolean = false,
-  parentBounds?: Bounds
+  parentBounds?: Bounds,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
 ): Promise<string> {
-  console.log('Generating React component for node:', node.name, node.type);
+  if (options.debug) {
+    console.log('Generating React component for node:', node.name, node.type);
+  }
   // If this is a root component/instance, try to get its component set
   if (isRoot && (node.type === 'COMPONENT' || node.type === 'INSTANCE')) {
     const componentSet = await getComponentSet(node);
     if (componentSet) {
       // Generate a component with all variants
-      return generateComponentWithVariants(componentSet, tokens, parentBounds);
+      return generateComponentWithVariants(componentSet, tokens, parentBounds, options);
     }
   }
   
   // If this is a component set, generate a component with all variants
   if (node.type === 'COMPONENT_SET') {
-    return generateComponentWithVariants(node, tokens, parentBounds);
+    return generateComponentWithVariants(node, tokens, parentBounds, options);
   }
   
   // Skip if this is a child of a component set (handled by the parent)
@@ -112,10 +150,15 @@ export async function generateReactComponent(
   
   // Check if node has image fills and extract assets
   if (isImageNode(node)) {
-    await extractImageAssets(node, styles);
+    await extractImageAssets(node, styles, options);
   }
 
-  const tailwindClasses = cleanupTailwindClasses(stylesToTailwind(styles, tokens));
+  let tailwindClasses = cleanupTailwindClasses(stylesToTailwind(styles, tokens, options));
+  
+  // Absolutely positioned children are placed relative to this node
+  if (hasPositionedChildren(node) && !/(^|\s)(relative|absolute)(\s|$)/.test(tailwindClasses)) {
+    tailwindClasses = `${tailwindClasses} relative`.trim();
+  }
   
   let childComponents = '';
   let childContent = '';
@@ -129,7 +172,7 @@ export async function generateReactComponent(
       // Check if child has image fills and extract assets
       if (isImageNode(child)) {
         const childStyles = await extractStyles(child);
-        await extractImageAssets(child, childStyles);
+        await extractImageAssets(child, childStyles, options);
       }
       
       // Ensure we have a line break if we already have content
@@ -146,26 +189,26 @@ export async function generateReactComponent(
           const instanceComponentName = generateComponentName(baseComponentName);
           
           // Extract variant properties from the instance
-          const props = getComponentProps(child);
+          const props = getComponentProps(child, mainComponent);
           const propsString = props.length > 0 ? ` ${props.join(' ')}` : '';
           
           childContent += `      <${instanceComponentName}${propsString} id="${child.name}" />`;
         } else {
-          const generatedContent = await generateComponentBody(child, tokens);
+          const generatedContent = await generateComponentBody(child, tokens, options);
           // Preserve formatting for multiline content
           childContent += generatedContent;
         }
       } else if (child.type === 'COMPONENT' || child.type === 'COMPONENT_SET') {
         // Only generate component if it's not part of a component set
         if (child.parent?.type !== 'COMPONENT_SET') {
-          childComponents += await generateReactComponent(child, tokens, false, childBounds) + '\n\n';
+          childComponents += await generateReactComponent(child, tokens, false, childBounds, options) + '\n\n';
           const props = getComponentProps(child);
           const propsString = props.length > 0 ? ` ${props.join(' ')}` : '';
           childContent += `      <${generateComponentName(child.name)}${propsString} />`;
         }
       } else {
         // Handle regular node, preserve formatting for multiline content
-        const generatedContent = await generateComponentBody(child, tokens);
+        const generatedContent = await generateComponentBody(child, tokens, options);
         childContent += generatedContent;
       }
     }
@@ -184,9 +227,11 @@ export async function generateReactComponent(
     
     // Get any props that should be passed to this component
     const props = getComponentProps(node);
+    const isTypeScript = options.language === 'typescript';
     const propsDeclaration = props.length > 0 ? 
-      `{ ${props.map(p => p.includes('=') ? p.split('=')[0] : p).join(', ')} }` : 
+      `{ ${props.map(p => p.includes('=') ? p.split('=')[0] : p).join(', ')} }${isTypeScript ? `: ${componentName}Props` : ''}` : 
       '';
+    const propsInterface = isTypeScript && props.length > 0 ? generatePropsInterface(componentName, props) : '';
     
     // Check if we need a wrapper div
     const needsWrapper = isRoot || 
@@ -201,7 +246,7 @@ export async function generateReactComponent(
       formattedChildren.trim() || '<></>';
     
     // Root/Component nodes should be containers only if they have layout-affecting styles
-    component = [
+    component = propsInterface + [
       `function ${componentName}(${propsDeclaration}) {`,
       `  return (`,
       `    ${wrapperDiv}`,
@@ -211,7 +256,7 @@ export async function generateReactComponent(
       `export default ${componentName};`
     ].join('\n');
   } else {
-    component = await generateComponentBody(node, tokens);
+    component = await generateComponentBody(node, tokens, options);
   }
   
   return childComponents + component;
@@ -1,42 +1,75 @@
 import { extractStyles } from '../styleExtractor';
 import { stylesToTailwind } from '../../transformers/stylesToTailwind';
 import { DesignTokens } from '../../types/designTokenTypes';
+import { StyleProperties, TextSegment } from '../../types/styleTypes';
+import { CodegenOptions } from '../../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../../utils/codegenOptions';
 import { cleanupTailwindClasses } from '../utils/styleUtils';
 import { isImageNode, generateImageComponent } from './imageComponent';
 import { generateSvgComponent } from './svgComponent';
+import { findMask, getMaskClipClasses, getMaskWrapperClasses } from './maskComponent';
 import { generateComponentName } from '../../utils/nameUtils';
-import { getComponentProps } from '../utils/nodeUtils';
+import { getComponentProps, getPositionStyles, hasPositionedChildren } from '../utils/nodeUtils';
+
+/**
+ * Overrides for rendering a tree that is not a single Figma subtree,
+ * e.g. several breakpoint frames merged into one responsive component
+ */
+export interface BodyRenderHooks {
+  // Children to render in place of the node's own
+  getChildren(node: SceneNode): readonly SceneNode[];
+  // Final classes of a node, given the classes of its own styles
+  resolveClasses(node: SceneNode, classes: string): string;
+}
 
 /**
  * Generates the body content for a component based on its node type
  */
 export async function generateComponentBody(
   node: SceneNode,
-  tokens: DesignTokens
+  tokens: DesignTokens,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS,
+  hooks?: BodyRenderHooks
 ): Promise<string> {
   const styles = await extractStyles(node);
-  const tailwindClasses = cleanupTailwindClasses(stylesToTailwind(styles, tokens));
-  
-  // Remove any unwanted auto-generated background colors
-  const cleanedClasses = removeAutoGeneratedBackgrounds(tailwindClasses);
+  const ownClasses = getNodeClasses(node, styles, tokens, options);
+  let cleanedClasses = hooks ? hooks.resolveClasses(node, ownClasses) : ownClasses;
   
   let childContent = '';
+  let children = getRenderedChildren(node, hooks);
+
+  // Layers above a mask are clipped to it. A mask at the bottom clips this node
+  // itself; one higher up gets a clipping element in its place.
+  let maskedChildren: readonly SceneNode[] = [];
+  let maskWrapperClasses = '';
+  const maskInfo = findMask(children);
+  if (maskInfo) {
+    const { mask, index } = maskInfo;
+    const maskClasses = getNodeClasses(mask, await extractStyles(mask), tokens, options);
+    if (index === 0) {
+      cleanedClasses = [cleanedClasses, ...getMaskClipClasses(mask, maskClasses)].join(' ').trim();
+    } else {
+      maskWrapperClasses = getMaskWrapperClasses(mask, maskClasses);
+      maskedChildren = children.slice(index + 1);
+    }
+    children = index === 0 ? children.slice(1) : children.slice(0, index);
+  }
 
   // Check if this node has meaningful styles that require a container
   const hasSignificantStyles = isNodeStyleSignificant(cleanedClasses);
 
-  if ('children' in node && node.children && node.children.length > 0) {
+  if (children.length > 0 || maskedChildren.length > 0) {
 
     // If there's only one child and current node doesn't have significant styles,
     // we can potentially pass the styles to the child instead of creating a wrapper
-    if (node.children.length === 1 && !hasSignificantStyles && 
-        !['INSTANCE', 'COMPONENT', 'COMPONENT_SET'].includes(node.children[0].type)) {
+    if (children.length === 1 && maskedChildren.length === 0 && !hasSignificantStyles && 
+        !['INSTANCE', 'COMPONENT', 'COMPONENT_SET'].includes(children[0].type)) {
       // Pass the parent's styles to the only child
-      return await generateComponentBodyWithParentStyles(node.children[0], tokens, cleanedClasses);
+      return await generateComponentBodyWithParentStyles(children[0], tokens, cleanedClasses, options, hooks);
     }
     
     // Process multiple children
-    for (const child of node.children) {
+    for (const child of children) {
       if (child.type === 'INSTANCE') {
         const mainComponent = await child.getMainComponentAsync();
         if (mainComponent) {
@@ -46,12 +79,12 @@ export async function generateComponentBody(
           const instanceComponentName = generateComponentName(baseComponentName);
           
           // Extract variant properties from the instance
-          const props = getComponentProps(child);
+          const props = getComponentProps(child, mainComponent);
           const propsString = props.length > 0 ? ` ${props.join(' ')}` : '';
           
           childContent += `      <${instanceComponentName}${propsString} id="${child.name}" />`;
         } else {
-          const generatedContent = await generateComponentBody(child, tokens);
+          const generatedContent = await generateComponentBody(child, tokens, options, hooks);
           // Preserve formatting for multiline content
           childContent += generatedContent;
         }
@@ -59,11 +92,22 @@ export async function generateComponentBody(
         if (childContent && !childContent.endsWith('\n')) {
           childContent += '\n';
         }
-        childContent += await generateComponentBody(child, tokens);
+        childContent += await generateComponentBody(child, tokens, options, hooks);
       }
       // Add proper spacing between elements
       
     }
+    
+    if (maskedChildren.length > 0) {
+      let maskedContent = '';
+      for (const child of maskedChildren) {
+        maskedContent += await generateComponentBody(child, tokens, options, hooks);
+      }
+      if (childContent && !childContent.endsWith('\n')) {
+        childContent += '\n';
+      }
+      childContent += `<div className="${maskWrapperClasses}">\n  ${maskedContent.trim()}\n</div>\n`;
+    }
   }
 
   // If node has no children and no significant styles, and it's not a container node type,
@@ -129,20 +173,25 @@ export async function generateComponentBody(
         else if (cleanedClasses.includes('text-3xl')) element = 'h2';
         else if (cleanedClasses.includes('text-2xl')) element = 'h3';
         else element = 'h4';
+      } else if (hasParagraphSpacing(styles, node.characters)) {
+        // Spaced paragraphs are rendered as <p> children
+        element = 'div';
       } else if (isParagraph) {
         element = 'p';
       }
       
+      const content = renderTextContent(styles, node.characters, tokens, options);
+      
       // For short text elements, use a simpler single-line format
       if (node.characters.length < 50 && !node.characters.includes('\n')) {
         const classes = cleanedClasses.trim();
         if (!classes) {
-          return `<${element}>${node.characters}</${element}>\n`;
+          return `<${element}>${content}</${element}>\n`;
         }
-        return `<${element} className="${classes}">${node.characters}</${element}>\n`;
+        return `<${element} className="${classes}">${content}</${element}>\n`;
       }
       
-      return wrapWithElement(element, node.characters);
+      return wrapWithElement(element, content);
     }
     case 'RECTANGLE':
     case 'ELLIPSE':
@@ -154,11 +203,11 @@ export async function generateComponentBody(
     case 'VECTOR':
     case 'LINE':
       // Use SVG component for vectors
-      return await generateSvgComponent(node, cleanedClasses);
+      return await generateSvgComponent(node, cleanedClasses, options);
     case 'POLYGON':
     case 'STAR':
       // Use SVG component for polygons and stars
-      return await generateSvgComponent(node, cleanedClasses);
+      return await generateSvgComponent(node, cleanedClasses, options);
     default:
       return childContent || (hasSignificantStyles ? wrapWithElement('div', cleanedClasses) : '');
   }
@@ -170,10 +219,15 @@ export async function generateComponentBody(
 async function generateComponentBodyWithParentStyles(
   node: SceneNode,
   tokens: DesignTokens,
-  parentClasses: string
+  parentClasses: string,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS,
+  hooks?: BodyRenderHooks
 ): Promise<string> {
   const styles = await extractStyles(node);
-  let tailwindClasses = cleanupTailwindClasses(stylesToTailwind(styles, tokens));
+  let tailwindClasses = addPositionClasses(node, cleanupTailwindClasses(stylesToTailwind(styles, tokens, options)));
+  if (hooks) {
+    tailwindClasses = hooks.resolveClasses(node, tailwindClasses);
+  }
   
   // Combine parent classes with child classes, removing duplicates
   tailwindClasses = mergeClasses(parentClasses, tailwindClasses);
@@ -182,14 +236,12 @@ async function generateComponentBodyWithParentStyles(
   const hasSignificantStyles = isNodeStyleSignificant(tailwindClasses);
   
   let childContent = '';
-  if ('children' in node && node.children && node.children.length > 0) {
-    for (const child of node.children) {
-      // Add proper spacing between elements
-      if (childContent && !childContent.endsWith('\n')) {
-        childContent += '\n';
-      }
-      childContent += await generateComponentBody(child, tokens);
+  for (const child of getRenderedChildren(node, hooks)) {
+    // Add proper spacing between elements
+    if (childContent && !childContent.endsWith('\n')) {
+      childContent += '\n';
     }
+    childContent += await generateComponentBody(child, tokens, options, hooks);
   }
   
   const wrapWithElement = (element: string, content: string = '') => {
@@ -248,20 +300,25 @@ async function generateComponentBodyWithParentStyles(
         else if (tailwindClasses.includes('text-3xl')) element = 'h2';
         else if (tailwindClasses.includes('text-2xl')) element = 'h3';
         else element = 'h4';
+      } else if (hasParagraphSpacing(styles, node.characters)) {
+        // Spaced paragraphs are rendered as <p> children
+        element = 'div';
       } else if (isParagraph) {
         element = 'p';
       }
       
+      const content = renderTextContent(styles, node.characters, tokens, options);
+      
       // For short text elements, use a simpler single-line format
       if (node.characters.length < 50 && !node.characters.includes('\n')) {
         const classes = tailwindClasses.trim();
         if (!classes) {
-          return `<${element}>${node.characters}</${element}>\n`;
+          return `<${element}>${content}</${element}>\n`;
         }
-        return `<${element} className="${classes}">${node.characters}</${element}>\n`;
+        return `<${element} className="${classes}">${content}</${element}>\n`;
       }
       
-      return wrapWithElement(element, node.characters);
+      return wrapWithElement(element, content);
     }
     case 'RECTANGLE':
     case 'ELLIPSE':
@@ -271,15 +328,132 @@ async function generateComponentBodyWithParentStyles(
       return hasSignificantStyles || childContent ? wrapWithElement('div', childContent) : childContent;
     case 'VECTOR':
     case 'LINE':
-      return await generateSvgComponent(node, tailwindClasses);
+      return await generateSvgComponent(node, tailwindClasses, options);
     case 'POLYGON':
     case 'STAR':
-      return await generateSvgComponent(node, tailwindClasses);
+      return await generateSvgComponent(node, tailwindClasses, options);
     default:
       return childContent || (hasSignificantStyles ? wrapWithElement('div') : '');
   }
 }
 
+/**
+ * Check if a text node has several paragraphs with spacing between them, which
+ * only applies when each paragraph is its own element
+ */
+function hasParagraphSpacing(styles: StyleProperties, characters: string): boolean {
+  return Boolean(styles.paragraphSpacing) && characters.trim().includes('\n');
+}
+
+/**
+ * Write text as JSX children, as a string expression when JSX would parse it
+ * Example: "Use {name} & <b>" -> {"Use {name} & <b>"}
+ */
+function toJsxText(text: string): string {
+  return /[{}<>&]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+}
+
+/**
+ * Example: 'https://example.com/?q="a"' -> {"https://example.com/?q=\"a\""}
+ */
+function toJsxAttributeValue(value: string): string {
+  return /["{]/.test(value) ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+/**
+ * Render the characters of a text node, wrapping each run styled differently
+ * from the node in its own element. Spaced paragraphs become <p> elements so the
+ * node's `space-y-*` class separates them.
+ * Example: "One\nTwo" with 8px paragraph spacing -> "<p>One</p>\n<p>Two</p>"
+ */
+function renderTextContent(
+  styles: StyleProperties,
+  characters: string,
+  tokens: DesignTokens,
+  options: CodegenOptions
+): string {
+  const renderRun = (text: string, segment?: TextSegment) => {
+    const jsxText = toJsxText(text);
+    if (!segment) return jsxText;
+    
+    const classes = cleanupTailwindClasses(stylesToTailwind(segment.styles, tokens, options)).trim();
+    const attributes = (segment.href ? ` href=${toJsxAttributeValue(segment.href)}` : '') +
+      (classes ? ` className="${classes}"` : '');
+    
+    // Runs styled like the node itself stay plain text
+    if (segment.element === 'span' && !attributes) {
+      return jsxText;
+    }
+    return `<${segment.element}${attributes}>${jsxText}</${segment.element}>`;
+  };
+  
+  if (!hasParagraphSpacing(styles, characters)) {
+    return styles.textSegments ?
+      styles.textSegments.map(segment => renderRun(segment.characters, segment)).join('') :
+      toJsxText(characters);
+  }
+  
+  // Split the runs at line breaks; a run crossing one is wrapped in each paragraph
+  const runs: Array<{ characters: string; segment?: TextSegment }> = styles.textSegments ?
+    styles.textSegments.map(segment => ({ characters: segment.characters, segment })) :
+    [{ characters }];
+  const paragraphs: string[] = [''];
+  runs.forEach(run => {
+    run.characters.split('\n').forEach((line, index) => {
+      if (index > 0) paragraphs.push('');
+      if (line) {
+        paragraphs[paragraphs.length - 1] += renderRun(line, run.segment);
+      }
+    });
+  });
+  
+  return paragraphs
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p>${paragraph}</p>`)
+    .join('\n');
+}
+
+/**
+ * Tailwind classes for a node's own styles and position, without implicit backgrounds
+ */
+export function getNodeClasses(
+  node: SceneNode,
+  styles: StyleProperties,
+  tokens: DesignTokens,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): string {
+  const classes = removeAutoGeneratedBackgrounds(cleanupTailwindClasses(stylesToTailwind(styles, tokens, options)));
+  return addPositionClasses(node, classes);
+}
+
+/**
+ * Pin absolutely positioned nodes by their constraints and make the parent
+ * of such nodes their containing block
+ */
+function addPositionClasses(node: SceneNode, classes: string): string {
+  let classList = classes.split(' ').filter(Boolean);
+
+  const positionClasses = getPositionStyles(node);
+  if (positionClasses) {
+    // The constraints decide the insets and size, so drop the in-flow sizing
+    classList = classList.filter(cls =>
+      !/^(static|relative|w-|h-|grow|shrink|self-|flex-(1|auto|initial|none)$)/.test(cls)
+    );
+    classList.push(...positionClasses.split(' '));
+  }
+
+  if (hasPositionedChildren(node) && !classList.some(cls => /^(relative|absolute|fixed|sticky)$/.test(cls))) {
+    classList.push('relative');
+  }
+
+  return classList.join(' ');
+}
+
+function getRenderedChildren(node: SceneNode, hooks?: BodyRenderHooks): readonly SceneNode[] {
+  if (hooks) return hooks.getChildren(node);
+  return 'children' in node && node.children ? node.children : [];
+}
+
 /**
  * Check if a node has styles that are significant enough to warrant a container
  */
@@ -302,6 +476,7 @@ function isNodeStyleSignificant(classes: string): boolean {
     /opacity-/, // Opacity
     /rounded/, // Border radius
     /m[trblxy]?-/, /p[trblxy]?-/, // Margin and padding
+    /(^|\s|:)hidden(\s|$)/, // Visibility toggled per breakpoint, not overflow-hidden
     /h-/, /w-/, /min-h-/, /min-w-/, /max-h-/, /max-w-/ // Size constraints
   ];
   
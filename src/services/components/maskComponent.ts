@@ -0,0 +1,48 @@
+// Layers a mask of this type clips as a rounded box rather than by its outline
+const BOX_MASK_TYPES = ['RECTANGLE', 'ELLIPSE', 'FRAME', 'COMPONENT', 'INSTANCE'];
+
+// Classes of a mask layer that place and size the clip
+const MASK_BOX_CLASS_PATTERN = /^(absolute|relative|w-|h-|(top|right|bottom|left)-|-?translate-|-?rotate-|origin-|rounded|grow|shrink|self-|flex-(1|auto|initial|none)$)/;
+
+/**
+ * Find the first visible mask among a node's children. Figma clips every layer
+ * above the mask within the same parent.
+ */
+export function findMask(children: readonly SceneNode[]): { mask: SceneNode; index: number } | null {
+  const index = children.findIndex(child => 'isMask' in child && child.isMask && child.visible);
+  return index >= 0 ? { mask: children[index], index } : null;
+}
+
+/**
+ * Classes that clip content to a mask layer's shape: boxes and ellipses clip with
+ * `overflow-hidden` and their corner radius; vectors and luminance masks use the
+ * exported SVG as a CSS mask image
+ */
+export function getMaskClipClasses(mask: SceneNode, maskClasses: string): string[] {
+  const isLuminance = 'maskType' in mask && mask.maskType === 'LUMINANCE';
+
+  if (BOX_MASK_TYPES.includes(mask.type) && !isLuminance) {
+    const rounded = mask.type === 'ELLIPSE' ?
+      ['rounded-full'] :
+      maskClasses.split(' ').filter(cls => cls.startsWith('rounded'));
+    return ['overflow-hidden', ...rounded];
+  }
+
+  // Same asset name the SVG export uses
+  const assetName = mask.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+  return [
+    `[mask-image:url(assets/svg/${assetName}.svg)]`,
+    '[mask-size:100%_100%]',
+    '[mask-repeat:no-repeat]',
+    ...(isLuminance ? ['[mask-mode:luminance]'] : [])
+  ];
+}
+
+/**
+ * Classes for an element standing in for a mask layer that sits above other
+ * layers: the mask's position and size plus the clip
+ */
+export function getMaskWrapperClasses(mask: SceneNode, maskClasses: string): string {
+  const boxClasses = maskClasses.split(' ').filter(cls => MASK_BOX_CLASS_PATTERN.test(cls));
+  return [...boxClasses.filter(cls => !cls.startsWith('rounded')), ...getMaskClipClasses(mask, maskClasses)].join(' ');
+}
@@ -1,10 +1,16 @@
 import { generateComponentName } from '../../utils/nameUtils';
 import { getComponentProps } from '../utils/nodeUtils';
+import { CodegenOptions } from '../../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../../utils/codegenOptions';
 
 /**
  * Generates an SVG component from a vector node by referencing it as an asset
  */
-export async function generateSvgComponent(node: SceneNode, tailwindClasses: string): Promise<string> {
+export async function generateSvgComponent(
+  node: SceneNode,
+  tailwindClasses: string,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): Promise<string> {
   // Check if this is an instance of a vector/icon component
   if (node.type === 'INSTANCE' && 'mainComponent' in node && node.mainComponent) {
     // Use type assertion to correctly type the mainComponent
@@ -14,10 +20,12 @@ export async function generateSvgComponent(node: SceneNode, tailwindClasses: str
     // If this is a vector instance, we should use the component instead of generating SVG
     if (mainComponent.name.toLowerCase().includes('icon') || 
         mainComponent.children?.some(child => child.type === 'VECTOR')) {
-      console.log(`Using component reference for vector instance: ${node.name} -> ${componentName}`);
+      if (options.debug) {
+        console.log(`Using component reference for vector instance: ${node.name} -> ${componentName}`);
+      }
       
       // Get props from the instance
-      const props = getComponentProps(node);
+      const props = getComponentProps(node, mainComponent);
       const propsString = props.length > 0 ? ` ${props.join(' ')}` : '';
       
       return `<${componentName}${propsString} className="${tailwindClasses}" />\n`;
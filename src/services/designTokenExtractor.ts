@@ -1,5 +1,6 @@
-import { DesignTokens } from '../types/designTokenTypes';
+import { DesignTokens, TokenModes, TokenReference } from '../types/designTokenTypes';
 import { colorToRgb } from '../utils/colorUtils';
+import { extractEffectValue } from '../utils/effectUtils';
 
 export async function extractDesignTokens(): Promise<DesignTokens> {
   const tokens: DesignTokens = {
@@ -47,23 +48,19 @@ export async function extractDesignTokens(): Promise<DesignTokens> {
             'auto',
         letterSpacing: 'value' in style.letterSpacing ? style.letterSpacing.value : 0
       },
-      type: 'typography'
+      type: 'typography',
+      description: style.description
     };
   }
 
   // Process effect styles
   for (const style of effectStyles) {
-    if (style.effects && style.effects[0] && style.effects[0].type === 'DROP_SHADOW') {
-      const shadow = style.effects[0];
+    const value = extractEffectValue(style.effects || []);
+    if (value.shadows.length > 0 || value.layerBlur !== undefined || value.backgroundBlur !== undefined) {
       tokens.effects[style.name] = {
-        value: {
-          x: shadow.offset.x,
-          y: shadow.offset.y,
-          blur: shadow.radius,
-          spread: shadow.spread || 0,
-          color: colorToRgb(shadow.color)
-        },
-        type: 'shadow'
+        value,
+        type: 'effect',
+        description: style.description
       };
     }
   }
@@ -74,41 +71,161 @@ export async function extractDesignTokens(): Promise<DesignTokens> {
   return tokens;
 }
 
+interface ResolvedVariableValue {
+  value: string | number;
+  reference?: TokenReference;
+}
+
 async function extractVariableTokens(tokens: DesignTokens): Promise<void> {
   const collections = await figma.variables.getLocalVariableCollectionsAsync();
   for (const collection of collections) {
     const variables = await figma.variables.getVariableCollectionByIdAsync(collection.id);
+    // Every mode other than the default one becomes a theme override
+    const otherModes = collection.modes.filter(mode => mode.modeId !== collection.defaultModeId);
+
     for (const variableId of variables?.variableIds ?? []) {
       const variable = await figma.variables.getVariableByIdAsync(variableId);
       if (!variable) continue;
 
-      const value = variable.valuesByMode[collection.defaultModeId];
       const name = `${collection.name}/${variable.name}`;
+      const category = categorizeVariable(name, variable.resolvedType);
+      if (!category) continue;
+
+      const resolved = await resolveVariableValue(variable.valuesByMode[collection.defaultModeId]);
+      if (!resolved) continue;
+
+      const modes = await getModeValues(variable, otherModes);
+      const description = variable.description || undefined;
       
-      if (typeof value === 'number') {
-        // Check variable name to categorize it
-        if (name.toLowerCase().includes('radius')) {
+      if (category === 'colors' && typeof resolved.value === 'string') {
+        tokens.colors[name] = {
+          value: resolved.value,
+          type: 'color',
+          description,
+          reference: resolved.reference,
+          modes: modes as TokenModes<string> | undefined
+        };
+      } else if (typeof resolved.value === 'number') {
+        if (category === 'borderRadius') {
           tokens.borderRadius[name] = {
-            value,
-            type: 'borderRadius'
+            value: resolved.value,
+            type: 'borderRadius',
+            description,
+            reference: resolved.reference,
+            modes: modes as TokenModes<number> | undefined
           };
-        } else if (name.toLowerCase().includes('width') || name.toLowerCase().includes('stroke')) {
+        } else if (category === 'borderWidth') {
           tokens.borderWidth[name] = {
-            value,
-            type: 'borderWidth'
+            value: resolved.value,
+            type: 'borderWidth',
+            description,
+            reference: resolved.reference,
+            modes: modes as TokenModes<number> | undefined
           };
-        } else {
+        } else if (category === 'spacing') {
           tokens.spacing[name] = {
-            value,
-            type: 'spacing'
+            value: resolved.value,
+            type: 'spacing',
+            description,
+            reference: resolved.reference,
+            modes: modes as TokenModes<number> | undefined
           };
         }
-      } else if (typeof value === 'object' && 'r' in value) {
-        tokens.colors[name] = {
-          value: colorToRgb(value),
-          type: 'color'
-        };
       }
     }
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Decide which token category a variable belongs to
+ */
+function categorizeVariable(
+  name: string,
+  resolvedType: VariableResolvedDataType
+): TokenReference['category'] | null {
+  if (resolvedType === 'COLOR') {
+    return 'colors';
+  }
+
+  if (resolvedType === 'FLOAT') {
+    // Check variable name to categorize it
+    if (name.toLowerCase().includes('radius')) {
+      return 'borderRadius';
+    } else if (name.toLowerCase().includes('width') || name.toLowerCase().includes('stroke')) {
+      return 'borderWidth';
+    }
+    return 'spacing';
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a variable value to a CSS-ready value. Aliases are followed to their
+ * final value, and the directly aliased variable is kept as a reference so the
+ * primitive/semantic layering survives into the generated CSS.
+ */
+async function resolveVariableValue(
+  value: VariableValue | undefined,
+  visited: Set<string> = new Set()
+): Promise<ResolvedVariableValue | null> {
+  if (value === undefined) return null;
+
+  if (typeof value === 'number') {
+    return { value };
+  }
+
+  if (typeof value === 'object' && 'r' in value) {
+    return { value: colorToRgb(value) };
+  }
+
+  if (typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+    // Guard against alias cycles
+    if (visited.has(value.id)) return null;
+    visited.add(value.id);
+
+    const target = await figma.variables.getVariableByIdAsync(value.id);
+    if (!target) return null;
+
+    // Library collections may not be readable, so fall back to the first mode the variable has
+    const targetCollection = await figma.variables.getVariableCollectionByIdAsync(target.variableCollectionId);
+    const targetModeId = targetCollection?.defaultModeId ?? Object.keys(target.valuesByMode)[0];
+
+    const resolved = await resolveVariableValue(target.valuesByMode[targetModeId], visited);
+    if (!resolved) return null;
+
+    // Remote (library) variables aren't exported as tokens, so there is nothing to reference
+    if (target.remote || !targetCollection) {
+      return { value: resolved.value };
+    }
+
+    const targetName = `${targetCollection.name}/${target.name}`;
+    const category = categorizeVariable(targetName, target.resolvedType);
+
+    return category ?
+      { value: resolved.value, reference: { category, name: targetName } } :
+      { value: resolved.value };
+  }
+
+  return null;
+}
+
+/**
+ * Collect a variable's values for the given modes, keyed by mode name.
+ * Values that can't be resolved are skipped.
+ */
+async function getModeValues(
+  variable: Variable,
+  modes: ReadonlyArray<{ modeId: string; name: string }>
+): Promise<TokenModes<string | number> | undefined> {
+  const modeValues: TokenModes<string | number> = {};
+
+  for (const mode of modes) {
+    const resolved = await resolveVariableValue(variable.valuesByMode[mode.modeId]);
+    if (resolved) {
+      modeValues[mode.name] = resolved;
+    }
+  }
+
+  return Object.keys(modeValues).length > 0 ? modeValues : undefined;
+}
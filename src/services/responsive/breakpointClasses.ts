@@ -0,0 +1,124 @@
+import { Breakpoints } from '../../types/codegenTypes';
+
+/**
+ * Classes of one layer in one breakpoint frame
+ */
+export interface BreakpointClasses {
+  // Responsive prefix such as "md"; empty for the base frame
+  prefix: string;
+  // null when the layer is missing or hidden in this frame
+  classes: string | null;
+}
+
+// Utilities that override each other, with the class restoring the browser default
+const CLASS_GROUPS: Array<{ pattern: RegExp; reset: string }> = [
+  { pattern: /^(block|inline|inline-block|flex|inline-flex|grid|hidden)$/, reset: 'block' },
+  { pattern: /^(static|relative|absolute|fixed|sticky)$/, reset: 'static' },
+  { pattern: /^w-/, reset: 'w-auto' },
+  { pattern: /^h-/, reset: 'h-auto' },
+  { pattern: /^min-w-/, reset: 'min-w-0' },
+  { pattern: /^max-w-/, reset: 'max-w-none' },
+  { pattern: /^min-h-/, reset: 'min-h-0' },
+  { pattern: /^max-h-/, reset: 'max-h-none' },
+  { pattern: /^flex-(row|col)/, reset: 'flex-row' },
+  { pattern: /^flex-(wrap|nowrap)/, reset: 'flex-nowrap' },
+  { pattern: /^flex-(1|auto|initial|none)$/, reset: 'flex-initial' },
+  { pattern: /^grid-cols-/, reset: 'grid-cols-none' },
+  { pattern: /^grid-rows-/, reset: 'grid-rows-none' },
+  { pattern: /^col-span-/, reset: 'col-auto' },
+  { pattern: /^row-span-/, reset: 'row-auto' },
+  { pattern: /^justify-(start|end|center|between|around|evenly|normal|stretch)$/, reset: 'justify-normal' },
+  { pattern: /^items-/, reset: 'items-stretch' },
+  { pattern: /^self-/, reset: 'self-auto' },
+  { pattern: /^gap-x-/, reset: 'gap-x-0' },
+  { pattern: /^gap-y-/, reset: 'gap-y-0' },
+  { pattern: /^gap-/, reset: 'gap-0' },
+  { pattern: /^(truncate|line-clamp-\d+)$/, reset: 'line-clamp-none' },
+  { pattern: /^(uppercase|lowercase|capitalize)$/, reset: 'normal-case' },
+  { pattern: /^(underline|line-through)$/, reset: 'no-underline' }
+];
+
+const DISPLAY_CLASS_PATTERN = CLASS_GROUPS[0].pattern;
+
+/**
+ * Combine the classes a layer has in each breakpoint frame into one class list.
+ * The first frame gives the base classes; every later frame only adds what changes,
+ * behind its prefix, and resets the utilities it no longer uses.
+ * Example: [{ prefix: '', classes: 'flex flex-col' }, { prefix: 'md', classes: 'flex flex-row' }]
+ *   -> "flex flex-col md:flex-row"
+ */
+export function mergeBreakpointClasses(breakpoints: BreakpointClasses[]): string {
+  const result: string[] = [];
+  // Classes in effect from the frames seen so far
+  let current: string[] = [];
+  let isHidden = false;
+
+  breakpoints.forEach(({ prefix, classes }, index) => {
+    const withPrefix = (cls: string) => prefix ? `${prefix}:${cls}` : cls;
+
+    if (classes === null) {
+      if (!isHidden) {
+        result.push(withPrefix('hidden'));
+        isHidden = true;
+      }
+      return;
+    }
+
+    const next = classes.split(' ').filter(Boolean);
+    if (index === 0) {
+      result.push(...next);
+      current = next;
+      return;
+    }
+
+    const added = next.filter(cls => !current.includes(cls));
+    const resets = current
+      .filter(cls => !next.includes(cls))
+      .map(getClassGroup)
+      .filter((group): group is { key: string; reset: string } =>
+        group !== undefined && !next.some(cls => getClassGroup(cls)?.key === group.key)
+      )
+      .map(group => group.reset);
+
+    // Show the layer again after a breakpoint that hid it
+    if (isHidden && !added.some(cls => DISPLAY_CLASS_PATTERN.test(cls))) {
+      added.unshift(next.find(cls => DISPLAY_CLASS_PATTERN.test(cls)) || 'block');
+    }
+
+    result.push(...[...added, ...resets].filter((cls, i, all) => all.indexOf(cls) === i).map(withPrefix));
+    current = next;
+    isHidden = false;
+  });
+
+  return result.join(' ');
+}
+
+/**
+ * Find the prefix whose screen a frame of the given width falls into
+ * Example: 1440 with Tailwind's default screens -> "xl"
+ */
+export function getBreakpointPrefix(width: number, breakpoints: Breakpoints): string {
+  return Object.entries(breakpoints)
+    .sort(([, a], [, b]) => a - b)
+    .reduce((prefix, [name, minWidth]) => minWidth <= width ? name : prefix, '');
+}
+
+/**
+ * Check whether mergeBreakpointClasses resets the class in a later frame that drops it
+ * Example: "w-full" -> true, "shadow-md" -> false
+ */
+export function hasBreakpointReset(cls: string): boolean {
+  return getClassGroup(cls) !== undefined;
+}
+
+function getClassGroup(cls: string): { key: string; reset: string } | undefined {
+  // Padding and margin reset per side
+  const spacing = cls.match(/^(p|m)([trblxy]?)-/);
+  if (spacing) {
+    const key = `${spacing[1]}${spacing[2]}`;
+    return { key, reset: `${key}-0` };
+  }
+
+  const group = CLASS_GROUPS.find(({ pattern }) => pattern.test(cls));
+  return group ? { key: group.pattern.source, reset: group.reset } : undefined;
+}
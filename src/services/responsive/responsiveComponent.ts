@@ -0,0 +1,185 @@
+import { extractStyles } from '../styleExtractor';
+import { generateComponentBody, getNodeClasses, BodyRenderHooks } from '../components/componentBody';
+import { mergeBreakpointClasses, getBreakpointPrefix } from './breakpointClasses';
+import { generateComponentName } from '../../utils/nameUtils';
+import { DesignTokens } from '../../types/designTokenTypes';
+import { CodegenOptions } from '../../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../../utils/codegenOptions';
+
+/**
+ * A layer matched across the breakpoint frames by its name path
+ */
+interface ResponsiveLayer {
+  // Node from the narrowest frame the layer is visible in; this is what gets rendered
+  node?: SceneNode;
+  // Classes in each frame, null where the layer is missing or hidden
+  classes: Array<string | null>;
+  // Keys of the child layers in render order
+  children: string[];
+}
+
+interface BreakpointFrame {
+  frame: SceneNode;
+  prefix: string;
+}
+
+/**
+ * Generate one component from frames that draw the same screen at different widths.
+ * Layers are matched by their name path, the narrowest frame gives the base classes
+ * and wider frames add only their differences behind `md:`, `lg:`, ... prefixes.
+ */
+export async function generateResponsiveComponent(
+  frames: readonly SceneNode[],
+  tokens: DesignTokens,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): Promise<string> {
+  const breakpointFrames = getBreakpointFrames(frames, options);
+  const layers = new Map<string, ResponsiveLayer>();
+
+  for (let index = 0; index < breakpointFrames.length; index++) {
+    await collectLayers(breakpointFrames[index].frame, '', index, breakpointFrames.length, layers, tokens, options);
+  }
+
+  // The frames stand in for the viewport, so the root fills it instead of
+  // taking each frame's fixed width
+  const root = layers.get('')!;
+  root.classes = root.classes.map(classes => classes === null ? null : [
+    ...classes.split(' ').filter(cls => !cls.startsWith('w-')),
+    'w-full'
+  ].join(' '));
+
+  // Render through the matched layers instead of a single frame's subtree
+  const nodeKeys = new Map<SceneNode, string>();
+  layers.forEach((layer, key) => layer.node && nodeKeys.set(layer.node, key));
+
+  const hooks: BodyRenderHooks = {
+    getChildren: node => {
+      const layer = layers.get(nodeKeys.get(node) ?? '');
+      if (!layer) return [];
+      return layer.children
+        .map(key => layers.get(key)?.node)
+        .filter((child): child is SceneNode => child !== undefined);
+    },
+    resolveClasses: (node, classes) => {
+      const key = nodeKeys.get(node);
+      const layer = key !== undefined ? layers.get(key) : undefined;
+      if (!layer) return classes;
+      return mergeBreakpointClasses(layer.classes.map((layerClasses, index) => ({
+        prefix: breakpointFrames[index].prefix,
+        classes: layerClasses
+      })));
+    }
+  };
+
+  const componentName = generateComponentName(getSharedName(breakpointFrames.map(({ frame }) => frame.name)));
+  const body = await generateComponentBody(breakpointFrames[0].frame, tokens, options, hooks);
+
+  return [
+    `function ${componentName}() {`,
+    `  return (`,
+    `    ${body.trim() || '<></>'}`,
+    `  );`,
+    `}`,
+    ``,
+    `export default ${componentName};`
+  ].join('\n');
+}
+
+/**
+ * Order frames from narrow to wide and pair each with its breakpoint prefix.
+ * The narrowest frame is the unprefixed base; wider frames that fall into the
+ * same screen as a narrower one add nothing and are left out.
+ */
+function getBreakpointFrames(frames: readonly SceneNode[], options: CodegenOptions): BreakpointFrame[] {
+  const sortedFrames = [...frames].sort((a, b) => a.width - b.width);
+  const breakpointFrames: BreakpointFrame[] = [];
+
+  sortedFrames.forEach((frame, index) => {
+    const prefix = index === 0 ? '' : getBreakpointPrefix(frame.width, options.breakpoints);
+    if (index > 0 && breakpointFrames.some(existing => existing.prefix === prefix)) {
+      console.warn(`Skipping ${frame.name}: no breakpoint between it and a narrower frame`);
+      return;
+    }
+    breakpointFrames.push({ frame, prefix });
+  });
+
+  return breakpointFrames;
+}
+
+/**
+ * Record the classes of a node and its descendants for one frame
+ */
+async function collectLayers(
+  node: SceneNode,
+  key: string,
+  frameIndex: number,
+  frameCount: number,
+  layers: Map<string, ResponsiveLayer>,
+  tokens: DesignTokens,
+  options: CodegenOptions
+): Promise<void> {
+  let layer = layers.get(key);
+  if (!layer) {
+    layer = { classes: new Array(frameCount).fill(null), children: [] };
+    layers.set(key, layer);
+  }
+
+  // Hidden layers count as missing from this frame
+  if ('visible' in node && !node.visible) {
+    return;
+  }
+
+  layer.node = layer.node || node;
+  layer.classes[frameIndex] = getNodeClasses(node, await extractStyles(node), tokens, options);
+
+  // Instances render as component references, so their layers are not matched
+  if (node.type === 'INSTANCE' || !('children' in node)) {
+    return;
+  }
+
+  const childKeys = getChildKeys(node.children, key);
+  mergeChildOrder(layer.children, childKeys);
+  for (let index = 0; index < node.children.length; index++) {
+    await collectLayers(node.children[index], childKeys[index], frameIndex, frameCount, layers, tokens, options);
+  }
+}
+
+/**
+ * Name path of each child; repeated sibling names are told apart by their position
+ * Example: children "Title", "Card", "Card" -> "/Title", "/Card", "/Card#2"
+ */
+function getChildKeys(children: readonly SceneNode[], parentKey: string): string[] {
+  const counts = new Map<string, number>();
+  return children.map(child => {
+    const count = (counts.get(child.name) || 0) + 1;
+    counts.set(child.name, count);
+    return `${parentKey}/${child.name}${count > 1 ? `#${count}` : ''}`;
+  });
+}
+
+/**
+ * Add layers that only exist in a wider frame right after their previous sibling
+ */
+function mergeChildOrder(order: string[], keys: string[]): void {
+  keys.forEach((key, index) => {
+    if (order.includes(key)) return;
+    const previousIndex = index > 0 ? order.indexOf(keys[index - 1]) : -1;
+    order.splice(previousIndex + 1, 0, key);
+  });
+}
+
+/**
+ * Name the component after the words all frame names share
+ * Example: "Home / Mobile", "Home / Desktop" -> "Home"
+ */
+function getSharedName(names: string[]): string {
+  const words = names.map(name => name.split(/[^a-zA-Z0-9]+/).filter(Boolean));
+  const shared: string[] = [];
+
+  for (let i = 0; i < words[0].length; i++) {
+    if (!words.every(nameWords => nameWords[i] === words[0][i])) break;
+    shared.push(words[0][i]);
+  }
+
+  return shared.length > 0 ? shared.join(' ') : names[0];
+}
@@ -1,5 +1,10 @@
-import { StyleProperties, RGBA } from '../types/styleTypes';
+import { StyleProperties, RGBA, BackgroundLayer, TextSegment } from '../types/styleTypes';
 import { rgbToHex } from '../utils/colorUtils';
+import { extractGradient } from '../utils/gradientUtils';
+import { toCssBlendMode } from '../utils/backgroundUtils';
+import { extractEffectValue, shadowsToCss } from '../utils/effectUtils';
+import { decomposeTransform } from '../utils/transformUtils';
+import { isAbsolutelyPositioned } from './utils/nodeUtils';
 
 // Helper function to convert Figma color to RGB/RGBA string
 function colorToRgba(color: { r: number; g: number; b: number; a?: number }): string {
@@ -22,13 +27,8 @@ export async function extractStyles(node: SceneNode): Promise<StyleProperties> {
   styles.variableReferences = {};
   
   // Extract dimensions and constraints
-  if ('width' in node && typeof node.width === 'number') {
-    styles.width = `${Math.round(node.width)}px`;
-  }
-  
-  if ('height' in node && typeof node.height === 'number') {
-    styles.height = `${Math.round(node.height)}px`;
-  }
+  extractSizing(node, styles);
+  extractTransform(node, styles);
 
   if ('minWidth' in node && node.minWidth !== null) {
     styles.minWidth = `${Math.round(node.minWidth)}px`;
@@ -64,7 +64,9 @@ export async function extractStyles(node: SceneNode): Promise<StyleProperties> {
   
   // Extract text properties
   if (node.type === 'TEXT') {
-    extractTextProperties(node, styles);
+    const segments = getStyledSegments(node);
+    extractTextProperties(node, segments, styles);
+    await extractTextSegments(node, segments, styles);
   }
   
   return styles;
@@ -151,15 +153,70 @@ async function extractVariableReferences(node: SceneNode, styles: StylePropertie
   }
 }
 
+// Figma image scale modes mapped to CSS background-size
+const BACKGROUND_SIZES: Record<string, string> = {
+  FILL: 'cover',
+  CROP: 'cover',
+  FIT: 'contain',
+  TILE: 'auto'
+};
+
+/**
+ * Compose several visible fills into background layers. Figma paints the array
+ * bottom to top while CSS lists layers top first, so the order is reversed; a plain
+ * bottom fill becomes the background color.
+ */
+function extractBackgroundLayers(fills: Paint[], node: SceneNode, styles: StyleProperties): void {
+  const layers: BackgroundLayer[] = [];
+  
+  for (const fill of fills) {
+    const blendMode = toCssBlendMode(fill.blendMode);
+    const opacity = Math.round((fill.opacity ?? 1) * 100) / 100;
+    
+    if (fill.type === 'SOLID') {
+      layers.unshift({ type: 'color', color: colorToRgba({ ...fill.color, a: opacity }), blendMode });
+    } else if (fill.type.startsWith('GRADIENT_')) {
+      const gradient = extractGradient(fill as GradientPaint, node.width, node.height);
+      if (gradient) {
+        layers.unshift({ type: 'gradient', gradient, blendMode });
+      }
+    } else if (fill.type === 'IMAGE' && fill.imageHash) {
+      layers.unshift({ type: 'image', imageHash: fill.imageHash, size: BACKGROUND_SIZES[fill.scaleMode], blendMode });
+    }
+  }
+  
+  const bottom = layers[layers.length - 1];
+  if (bottom && bottom.type === 'color' && !bottom.blendMode) {
+    styles.backgroundColor = bottom.color;
+    layers.pop();
+  }
+  
+  if (layers.length > 0) {
+    styles.backgroundLayers = layers;
+  }
+}
+
 function extractVisualProperties(node: SceneNode, styles: StyleProperties): void {
   // Handle fills
-  if (!styles.styleReferences!.fill && 'fills' in node && Array.isArray(node.fills) && node.fills.length > 0) {
+  const visibleFills = 'fills' in node && Array.isArray(node.fills) ?
+    (node.fills as Paint[]).filter(fill => fill.visible !== false) :
+    [];
+  if (!styles.styleReferences!.fill && node.type !== 'TEXT' && visibleFills.length > 1) {
+    // Stacked fills are composed into layered backgrounds
+    extractBackgroundLayers(visibleFills, node, styles);
+  } else if (!styles.styleReferences!.fill && node.type !== 'TEXT' && 'fills' in node && Array.isArray(node.fills) && node.fills.length > 0) {
+    // Text fills color the glyphs and are read with the text styles
     const fill = node.fills[0];
     if (fill.type === 'SOLID' && fill.visible !== false) {
       styles.backgroundColor = colorToRgba(fill.color);
       if ('opacity' in fill && fill.opacity! < 1) {
         styles.opacity = fill.opacity!.toString();
       }
+    } else if (fill.type.startsWith('GRADIENT_') && fill.visible !== false) {
+      const gradient = extractGradient(fill as GradientPaint, node.width, node.height);
+      if (gradient) {
+        styles.backgroundGradient = gradient;
+      }
     } else if (fill.type === 'IMAGE' && fill.visible !== false) {
       // Extract image fill details
       styles.backgroundImage = true;
@@ -213,14 +270,25 @@ function extractVisualProperties(node: SceneNode, styles: StyleProperties): void
     if (stroke.type === 'SOLID' && stroke.visible !== false) {
       const color = colorToRgba(stroke.color);
       if ('strokeWeight' in node) {
-        styles.strokeWeight = `${String(node.strokeWeight)}px`;
-        styles.border = `${String(node.strokeWeight)}px solid ${color}`;
+        const sides = getStrokeSides(node);
+        const weight = typeof node.strokeWeight === 'number' ? node.strokeWeight : Math.max(...sides);
+        styles.strokeWeight = `${weight}px`;
+        styles.border = `${weight}px solid ${color}`;
+        if (sides.some(side => side !== sides[0])) {
+          const [top, right, bottom, left] = sides;
+          styles.borderWidths = { top, right, bottom, left };
+        }
         
         // Extract stroke alignment
         if ('strokeAlign' in node) {
           styles.strokeAlign = node.strokeAlign;
         }
         
+        // Strokes of frames with content only push it inward when included in layout
+        if ('strokesIncludedInLayout' in node && node.children.length > 0) {
+          styles.strokesIncludedInLayout = node.strokesIncludedInLayout;
+        }
+        
         // Extract stroke dash pattern
         if ('strokeDashes' in node && Array.isArray(node.strokeDashes) && node.strokeDashes.length > 0) {
           if (node.strokeDashes.length === 2 && node.strokeDashes[0] === node.strokeDashes[1]) {
@@ -235,6 +303,20 @@ function extractVisualProperties(node: SceneNode, styles: StyleProperties): void
     }
   }
 
+  // Handle layer blending; pass-through and normal need nothing
+  if ('blendMode' in node) {
+    const blendMode = toCssBlendMode(node.blendMode);
+    if (blendMode) {
+      styles.blendMode = blendMode;
+    }
+  }
+
+  // Handle masks, which clip the layers above them instead of being drawn
+  if ('isMask' in node && node.isMask) {
+    styles.isMask = true;
+    styles.maskType = node.maskType;
+  }
+
   // Handle effects
   if ('effects' in node && Array.isArray(node.effects) && node.effects.length > 0) {
     styles.effects = node.effects.map(effect => {
@@ -252,20 +334,115 @@ function extractVisualProperties(node: SceneNode, styles: StyleProperties): void
       return effect;
     });
 
-    const shadowEffect = node.effects.find(e => e.type === 'DROP_SHADOW' && e.visible);
-    if (shadowEffect && shadowEffect.type === 'DROP_SHADOW') {
-      const color = colorToRgba(shadowEffect.color);
-      const x = Math.round(shadowEffect.offset.x);
-      const y = Math.round(shadowEffect.offset.y);
-      const blur = Math.round(shadowEffect.radius);
-      const spread = shadowEffect.spread ? Math.round(shadowEffect.spread) : 0;
-      styles.boxShadow = `${x}px ${y}px ${blur}px ${spread}px ${color}`;
+    const { shadows, layerBlur, backgroundBlur } = extractEffectValue(node.effects);
+    if (shadows.length > 0) {
+      styles.boxShadow = shadowsToCss(shadows);
+    }
+    if (layerBlur !== undefined) {
+      styles.blur = `${layerBlur}px`;
+    }
+    if (backgroundBlur !== undefined) {
+      styles.backdropBlur = `${backgroundBlur}px`;
     }
   }
 }
 
+// Grid auto layout fields, which are newer than the plugin typings we build against
+interface GridLayoutFields {
+  gridRowCount?: number;
+  gridColumnCount?: number;
+  gridRowGap?: number;
+  gridColumnGap?: number;
+}
+
+interface GridChildFields {
+  gridRowSpan?: number;
+  gridColumnSpan?: number;
+}
+
+function isGridLayout(node: BaseNode | null): boolean {
+  return Boolean(node && 'layoutMode' in node && (node.layoutMode as string) === 'GRID');
+}
+
+/**
+ * Size a node the way its auto layout does: fixed sizes keep their pixels, hug sizes
+ * follow the content and fill sizes grow along the parent's axis or stretch across it.
+ */
+function extractSizing(node: SceneNode, styles: StyleProperties): void {
+  const horizontal = 'layoutSizingHorizontal' in node ? node.layoutSizingHorizontal : 'FIXED';
+  const vertical = 'layoutSizingVertical' in node ? node.layoutSizingVertical : 'FIXED';
+  styles.layoutSizingHorizontal = horizontal;
+  styles.layoutSizingVertical = vertical;
+
+  if (horizontal === 'FIXED' && 'width' in node && typeof node.width === 'number') {
+    styles.width = `${Math.round(node.width)}px`;
+  }
+  
+  if (vertical === 'FIXED' && 'height' in node && typeof node.height === 'number') {
+    styles.height = `${Math.round(node.height)}px`;
+  }
+
+  const parent = node.parent;
+  if (horizontal !== 'FILL' && vertical !== 'FILL' || !parent || !('layoutMode' in parent)) {
+    return;
+  }
+
+  // Grid cells are filled rather than grown into
+  if (isGridLayout(parent)) {
+    if (horizontal === 'FILL') styles.width = '100%';
+    if (vertical === 'FILL') styles.height = '100%';
+    return;
+  }
+
+  const primaryFill = parent.layoutMode === 'HORIZONTAL' ? horizontal === 'FILL' : vertical === 'FILL';
+  const counterFill = parent.layoutMode === 'HORIZONTAL' ? vertical === 'FILL' : horizontal === 'FILL';
+  if (primaryFill) {
+    styles.flex = '1';
+  }
+  if (counterFill) {
+    styles.alignSelf = 'stretch';
+  }
+}
+
+// Nodes exported as SVG, whose markup already has the transform applied
+const SVG_NODE_TYPES = ['VECTOR', 'LINE', 'POLYGON', 'STAR', 'BOOLEAN_OPERATION'];
+
+/**
+ * Stroke weight of each side, top first and clockwise
+ */
+function getStrokeSides(node: SceneNode): number[] {
+  if ('strokeTopWeight' in node) {
+    return [node.strokeTopWeight, node.strokeRightWeight, node.strokeBottomWeight, node.strokeLeftWeight];
+  }
+  const weight = 'strokeWeight' in node && typeof node.strokeWeight === 'number' ? node.strokeWeight : 0;
+  return [weight, weight, weight, weight];
+}
+
+/**
+ * Rotation, skew and mirroring from the node's transform. Figma pivots around the
+ * node's top-left corner, which is where x/y point, so positioned nodes keep that
+ * origin. Nodes in the flow pivot around their center so they stay in their slot.
+ */
+function extractTransform(node: SceneNode, styles: StyleProperties): void {
+  if (!('relativeTransform' in node) || SVG_NODE_TYPES.includes(node.type)) {
+    return;
+  }
+
+  const transform = decomposeTransform(node.relativeTransform);
+  if (!transform) {
+    return;
+  }
+
+  styles.transform = transform;
+  if (isAbsolutelyPositioned(node)) {
+    styles.transformOrigin = 'top left';
+  }
+}
+
 function extractLayoutProperties(node: SceneNode, styles: StyleProperties): void {
-  if ('layoutMode' in node) {
+  if (isGridLayout(node)) {
+    extractGridProperties(node as SceneNode & GridLayoutFields, styles);
+  } else if ('layoutMode' in node && node.layoutMode !== 'NONE') {
     styles.display = 'flex';
     styles.flexDirection = node.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
     
@@ -273,14 +450,6 @@ function extractLayoutProperties(node: SceneNode, styles: StyleProperties): void
       styles.flexWrap = node.layoutWrap === 'WRAP' ? 'wrap' : 'nowrap';
     }
 
-    if ('primaryAxisSizingMode' in node) {
-      styles.layoutSizingHorizontal = node.primaryAxisSizingMode;
-    }
-
-    if ('counterAxisSizingMode' in node) {
-      styles.layoutSizingVertical = node.counterAxisSizingMode;
-    }
-    
     // Handle alignment
     if ('primaryAxisAlignItems' in node) {
       switch (node.primaryAxisAlignItems) {
@@ -322,6 +491,17 @@ function extractLayoutProperties(node: SceneNode, styles: StyleProperties): void
     }
   }
 
+  // Children of a grid can span several tracks
+  if (isGridLayout(node.parent)) {
+    const { gridRowSpan, gridColumnSpan } = node as SceneNode & GridChildFields;
+    if (gridColumnSpan && gridColumnSpan > 1) {
+      styles.gridColumnSpan = gridColumnSpan;
+    }
+    if (gridRowSpan && gridRowSpan > 1) {
+      styles.gridRowSpan = gridRowSpan;
+    }
+  }
+
   // Handle layout align (align-self)
   if ('layoutAlign' in node) {
     switch (node.layoutAlign) {
@@ -340,8 +520,8 @@ function extractLayoutProperties(node: SceneNode, styles: StyleProperties): void
     }
   }
 
-  // Handle layout grow (flex-grow)
-  if ('layoutGrow' in node) {
+  // Handle layout grow (flex-grow), unless fill sizing already made the node flex
+  if ('layoutGrow' in node && !styles.flex) {
     styles.flexGrow = node.layoutGrow.toString();
   }
 
@@ -366,24 +546,63 @@ function extractLayoutProperties(node: SceneNode, styles: StyleProperties): void
   }
 }
 
-function extractTextProperties(node: TextNode, styles: StyleProperties): void {
-  if (node.fontSize) styles.fontSize = `${String(node.fontSize)}px`;
-  
-  if (node.fontName && typeof node.fontName !== 'symbol') {
-    styles.fontFamily = node.fontName.family;
-    styles.fontStyle = node.fontName.style;
+function extractGridProperties(node: SceneNode & GridLayoutFields, styles: StyleProperties): void {
+  styles.display = 'grid';
+
+  if (node.gridColumnCount) {
+    styles.gridColumns = node.gridColumnCount;
   }
-  
-  if (node.fontWeight && typeof node.fontWeight !== 'symbol') {
-    styles.fontWeight = String(node.fontWeight);
+  if (node.gridRowCount) {
+    styles.gridRows = node.gridRowCount;
   }
-  
-  if (node.fills && Array.isArray(node.fills) && node.fills.length > 0) {
-    const fill = node.fills[0];
-    if (fill.type === 'SOLID') {
-      styles.color = colorToRgba(fill.color);
-    }
+  if (node.gridColumnGap) {
+    styles.columnGap = `${node.gridColumnGap}px`;
+  }
+  if (node.gridRowGap) {
+    styles.rowGap = `${node.gridRowGap}px`;
   }
+}
+
+// Text properties that can differ between runs of a single text node
+type TextSegmentField = 'fontSize' | 'fontName' | 'fontWeight' | 'fills' | 'fillStyleId' | 'textStyleId' |
+  'letterSpacing' | 'lineHeight' | 'textCase' | 'textDecoration' | 'hyperlink';
+type StyledSegment = Pick<StyledTextSegment, TextSegmentField | 'characters' | 'start' | 'end'>;
+type TextRun = Partial<Pick<StyledTextSegment,
+  'fontSize' | 'fontName' | 'fontWeight' | 'letterSpacing' | 'lineHeight' | 'textCase' | 'textDecoration'>> & {
+  fills?: readonly Paint[];
+};
+
+const TEXT_SEGMENT_FIELDS: TextSegmentField[] = [
+  'fontSize', 'fontName', 'fontWeight', 'fills', 'fillStyleId', 'textStyleId', 'letterSpacing', 'lineHeight',
+  'textCase', 'textDecoration', 'hyperlink'
+];
+
+const TEXT_CASES: Partial<Record<TextCase, string>> = {
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize',
+  SMALL_CAPS: 'small-caps',
+  SMALL_CAPS_FORCED: 'all-small-caps'
+};
+
+const TEXT_DECORATIONS: Partial<Record<TextDecoration, string>> = {
+  UNDERLINE: 'underline',
+  STRIKETHROUGH: 'line-through'
+};
+
+function extractTextProperties(node: TextNode, segments: StyledSegment[], styles: StyleProperties): void {
+  // Mixed properties are taken from the longest styled run
+  const base = getDominantSegment(segments);
+  extractTextRunProperties({
+    fontSize: unmixed(node.fontSize, base?.fontSize),
+    fontName: unmixed(node.fontName, base?.fontName),
+    fontWeight: unmixed(node.fontWeight, base?.fontWeight),
+    fills: unmixed(node.fills, base?.fills),
+    letterSpacing: unmixed(node.letterSpacing, base?.letterSpacing),
+    lineHeight: unmixed(node.lineHeight, base?.lineHeight),
+    textCase: unmixed(node.textCase, base?.textCase),
+    textDecoration: unmixed(node.textDecoration, base?.textDecoration)
+  }, styles);
   
   if (node.textAlignHorizontal) {
     switch (node.textAlignHorizontal) {
@@ -402,21 +621,19 @@ function extractTextProperties(node: TextNode, styles: StyleProperties): void {
     }
   }
   
-  if (node.lineHeight && typeof node.lineHeight !== 'symbol') {
-    if (node.lineHeight.unit === 'PIXELS') {
-      styles.lineHeight = `${node.lineHeight.value}px`;
-    } else if (node.lineHeight.unit === 'PERCENT') {
-      styles.lineHeight = `${node.lineHeight.value / 100}`;
-    } else if (node.lineHeight.unit === 'AUTO') {
-      styles.lineHeight = 'normal';
-    }
+  if (node.paragraphIndent) {
+    styles.paragraphIndent = `${node.paragraphIndent}px`;
   }
 
-  if (node.letterSpacing && typeof node.letterSpacing !== 'symbol') {
-    if (node.letterSpacing.unit === 'PIXELS') {
-      styles.letterSpacing = `${node.letterSpacing.value}px`;
-    } else if (node.letterSpacing.unit === 'PERCENT') {
-      styles.letterSpacing = `${node.letterSpacing.value}%`;
+  if (node.paragraphSpacing) {
+    styles.paragraphSpacing = `${node.paragraphSpacing}px`;
+  }
+
+  // Truncated text ends in an ellipsis, clamped to maxLines when set
+  if (node.textTruncation === 'ENDING' || node.textAutoResize === 'TRUNCATE') {
+    styles.textTruncation = 'ending';
+    if (node.maxLines && node.maxLines > 1) {
+      styles.maxLines = node.maxLines;
     }
   }
 
@@ -436,4 +653,164 @@ function extractTextProperties(node: TextNode, styles: StyleProperties): void {
   if ('openTypeFeatures' in node && typeof node.openTypeFeatures !== 'symbol') {
     styles.openTypeFeatures = node.openTypeFeatures;
   }
-} 
\ No newline at end of file
+}
+
+function extractTextRunProperties(run: TextRun, styles: StyleProperties): void {
+  if (run.fontSize) styles.fontSize = `${String(run.fontSize)}px`;
+  
+  if (run.fontName) {
+    styles.fontFamily = run.fontName.family;
+    styles.fontStyle = run.fontName.style;
+    if (/italic/i.test(run.fontName.style)) {
+      styles.italic = true;
+    }
+  }
+  
+  if (run.fontWeight) {
+    styles.fontWeight = String(run.fontWeight);
+  }
+  
+  if (run.fills && run.fills.length > 0) {
+    const fill = run.fills[0];
+    if (fill.type === 'SOLID') {
+      styles.color = colorToRgba(fill.color);
+    }
+  }
+  
+  if (run.lineHeight) {
+    if (run.lineHeight.unit === 'PIXELS') {
+      styles.lineHeight = `${run.lineHeight.value}px`;
+    } else if (run.lineHeight.unit === 'PERCENT') {
+      styles.lineHeight = `${run.lineHeight.value / 100}`;
+    } else if (run.lineHeight.unit === 'AUTO') {
+      styles.lineHeight = 'normal';
+    }
+  }
+
+  if (run.letterSpacing) {
+    if (run.letterSpacing.unit === 'PIXELS') {
+      styles.letterSpacing = `${run.letterSpacing.value}px`;
+    } else if (run.letterSpacing.unit === 'PERCENT') {
+      styles.letterSpacing = `${run.letterSpacing.value}%`;
+    }
+  }
+
+  if (run.textCase && TEXT_CASES[run.textCase]) {
+    styles.textCase = TEXT_CASES[run.textCase];
+  }
+
+  if (run.textDecoration && TEXT_DECORATIONS[run.textDecoration]) {
+    styles.textDecoration = TEXT_DECORATIONS[run.textDecoration];
+  }
+}
+
+/**
+ * Split a mixed-style text node into runs. The node itself takes the styles of its
+ * longest run, so each segment only keeps the styles that differ from it.
+ */
+async function extractTextSegments(node: TextNode, segments: StyledSegment[], styles: StyleProperties): Promise<void> {
+  const base = getDominantSegment(segments);
+  if (!base || segments.length < 2) {
+    return;
+  }
+
+  const baseStyles = await extractSegmentStyles(base);
+
+  // Mixed style references are also resolved from the longest run
+  if (typeof node.fillStyleId === 'symbol' && baseStyles.styleReferences!.fill) {
+    styles.styleReferences!.fill = baseStyles.styleReferences!.fill;
+  }
+  if (typeof node.textStyleId === 'symbol' && baseStyles.styleReferences!.text) {
+    styles.styleReferences!.text = baseStyles.styleReferences!.text;
+  }
+
+  const textSegments: TextSegment[] = [];
+  for (const segment of segments) {
+    const segmentStyles = segment === base ? baseStyles : await extractSegmentStyles(segment);
+    const href = segment.hyperlink?.type === 'URL' ? segment.hyperlink.value : undefined;
+    const isBold = segment.fontWeight >= 600 && base.fontWeight < 600;
+
+    textSegments.push({
+      characters: segment.characters,
+      element: href ? 'a' : isBold ? 'strong' : 'span',
+      href,
+      styles: diffTextStyles(segmentStyles, baseStyles)
+    });
+  }
+
+  styles.textSegments = textSegments;
+}
+
+async function extractSegmentStyles(segment: StyledSegment): Promise<StyleProperties> {
+  const styles: StyleProperties = { styleReferences: {} };
+  extractTextRunProperties(segment, styles);
+
+  try {
+    const fillStyle = segment.fillStyleId ? await figma.getStyleByIdAsync(segment.fillStyleId) : null;
+    if (fillStyle && fillStyle.type === 'PAINT') {
+      styles.styleReferences!.fill = fillStyle.name;
+    }
+
+    const textStyle = segment.textStyleId ? await figma.getStyleByIdAsync(segment.textStyleId) : null;
+    if (textStyle && textStyle.type === 'TEXT') {
+      styles.styleReferences!.text = textStyle.name;
+    }
+  } catch (error) {
+    console.error('Error getting text segment styles:', error);
+  }
+
+  return styles;
+}
+
+// Values that undo a text style of the node in a run that doesn't have it
+const TEXT_STYLE_RESETS: Partial<Record<keyof StyleProperties, unknown>> = {
+  fontWeight: '400',
+  italic: false,
+  textCase: 'normal-case',
+  textDecoration: 'no-underline'
+};
+
+// Keep only the properties of a run that differ from the node's own styles
+function diffTextStyles(styles: StyleProperties, base: StyleProperties): StyleProperties {
+  const diff: StyleProperties = { styleReferences: {} };
+
+  (Object.keys(styles) as (keyof StyleProperties)[]).forEach(key => {
+    if (key !== 'styleReferences' && styles[key] !== base[key]) {
+      (diff as Record<string, unknown>)[key] = styles[key];
+    }
+  });
+
+  // A run without a style of the node would otherwise inherit it
+  (Object.keys(TEXT_STYLE_RESETS) as (keyof StyleProperties)[]).forEach(key => {
+    if (base[key] !== undefined && styles[key] === undefined) {
+      (diff as Record<string, unknown>)[key] = TEXT_STYLE_RESETS[key];
+    }
+  });
+
+  (['fill', 'text'] as const).forEach(key => {
+    const reference = styles.styleReferences![key];
+    if (reference && reference !== base.styleReferences![key]) {
+      diff.styleReferences![key] = reference;
+    }
+  });
+
+  return diff;
+}
+
+function getStyledSegments(node: TextNode): StyledSegment[] {
+  if (!node.characters || typeof node.getStyledTextSegments !== 'function') {
+    return [];
+  }
+  return node.getStyledTextSegments(TEXT_SEGMENT_FIELDS);
+}
+
+function getDominantSegment(segments: StyledSegment[]): StyledSegment | undefined {
+  return segments.reduce<StyledSegment | undefined>(
+    (longest, segment) => !longest || segment.characters.length > longest.characters.length ? segment : longest,
+    undefined
+  );
+}
+
+function unmixed<T>(value: T, fallback: Exclude<T, symbol> | undefined): Exclude<T, symbol> | undefined {
+  return typeof value === 'symbol' ? fallback : value as Exclude<T, symbol>;
+}
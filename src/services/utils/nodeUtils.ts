@@ -1,4 +1,7 @@
 import { DesignTokens } from '../../types/designTokenTypes';
+import { generateComponentName, propertyNameToProp } from '../../utils/nameUtils';
+import { isBooleanVariant, toBooleanVariantValue, toCvaValue } from '../variants/variantUtils';
+import { toVariantPropName } from '../variants/nameUtils';
 
 export interface Bounds {
   x: number;
@@ -84,32 +87,26 @@ export function isNodeOutsideBounds(node: SceneNode, bounds: Bounds): boolean {
 }
 
 /**
- * Helper to sanitize component property names to valid JSX attribute names
- * Converts dots to underscores to avoid JSX syntax errors
+ * Helper to get component props. The main component of an instance tells which
+ * variant properties are on/off switches.
  */
-function sanitizePropertyName(propName: string): string {
-  // Replace dots with underscores
-  return propName.replace(/\./g, '_');
-}
-
-/**
- * Helper to get component props
- */
-export function getComponentProps(node: SceneNode): string[] {
+export function getComponentProps(node: SceneNode, mainComponent: ComponentNode | null = null): string[] {
   const props: string[] = [];
   
-  // Add component properties
+  // Add text, boolean and instance swap properties; variants are added below
   if ('componentProperties' in node && node.componentProperties) {
-    Object.entries(node.componentProperties).forEach(([key, value]) => {
-      // Sanitize the property name to ensure it's a valid JSX attribute
-      const safeKey = sanitizePropertyName(key);
-      
-      // Handle different types of property values
-      if (typeof value === 'string') {
-        props.push(`${safeKey}="${value}"`);
-      } else if (typeof value === 'boolean') {
-        if (value) {
-          props.push(safeKey);
+    Object.entries(node.componentProperties).forEach(([key, property]) => {
+      const propName = propertyNameToProp(key);
+
+      if (property.type === 'TEXT') {
+        props.push(`${propName}=${toJsxAttributeValue(String(property.value))}`);
+      } else if (property.type === 'BOOLEAN') {
+        props.push(property.value ? propName : `${propName}={false}`);
+      } else if (property.type === 'INSTANCE_SWAP') {
+        // The swapped-in component is the nested instance the property drives
+        const swapped = findNodeByPropertyReference(node, 'mainComponent', key);
+        if (swapped) {
+          props.push(`${propName}={<${generateComponentName(swapped.name.split(',')[0].trim())} />}`);
         }
       }
     });
@@ -117,16 +114,53 @@ export function getComponentProps(node: SceneNode): string[] {
 
   // Add variant properties
   if ('variantProperties' in node && node.variantProperties) {
+    const componentSet = mainComponent?.parent?.type === 'COMPONENT_SET' ? mainComponent.parent : null;
+    const definitions = componentSet?.componentPropertyDefinitions || {};
+    
     Object.entries(node.variantProperties).forEach(([key, value]) => {
-      // First sanitize the key to remove dots, then handle spaces
-      const safeKey = sanitizePropertyName(key).split(' ').join('_').toLowerCase();
-      props.push(`${safeKey}="${value}"`);
+      // Named and valued like the props of the generated variant component
+      const safeKey = toVariantPropName(key);
+      const values = definitions[key]?.variantOptions || [];
+      // Switches such as Disabled=True or Has Icon=No are boolean props
+      if (isBooleanVariant(values)) {
+        props.push(toBooleanVariantValue(value) ? safeKey : `${safeKey}={false}`);
+      } else {
+        props.push(`${safeKey}="${toCvaValue(value, values)}"`);
+      }
     });
   }
 
   return props;
 }
 
+/**
+ * Quote a string for a JSX attribute, falling back to an expression when it
+ * contains characters a plain attribute string cannot hold
+ */
+function toJsxAttributeValue(value: string): string {
+  return /["{}<>\n\\]/.test(value) ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+/**
+ * Find the first descendant whose given field is driven by a component property
+ */
+export function findNodeByPropertyReference(
+  node: SceneNode,
+  field: 'visible' | 'characters' | 'mainComponent',
+  propertyName: string
+): SceneNode | null {
+  if (!('children' in node)) return null;
+
+  for (const child of node.children) {
+    if (child.componentPropertyReferences?.[field] === propertyName) {
+      return child;
+    }
+    const match = findNodeByPropertyReference(child, field, propertyName);
+    if (match) return match;
+  }
+  return null;
+}
+
 /**
  * Helper to get the component set for a node
  */
@@ -147,34 +181,99 @@ export async function getComponentSet(node: SceneNode): Promise<ComponentSetNode
 }
 
 /**
- * Helper to generate position styles
+ * Helper to check if a node is taken out of the flow and pinned by its constraints:
+ * absolute children of auto layout, and children of frames without auto layout
+ */
+export function isAbsolutelyPositioned(node: SceneNode): boolean {
+  const parent = node.parent;
+  if (!parent || parent.type === 'COMPONENT_SET' || !('layoutMode' in parent)) {
+    return false;
+  }
+  return ('layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE') ||
+    parent.layoutMode === 'NONE';
+}
+
+/**
+ * Helper to check if a node is the containing block of absolutely positioned children
+ */
+export function hasPositionedChildren(node: SceneNode): boolean {
+  return 'children' in node && node.children.some(isAbsolutelyPositioned);
+}
+
+/**
+ * Helper to generate position styles from a node's constraints, so it keeps its
+ * place when the parent resizes:
+ * - MIN/MAX pin the left/top or right/bottom edge
+ * - CENTER keeps the offset from the parent's center
+ * - STRETCH pins both edges and leaves the size to them
+ * - SCALE uses percentages of the parent
  */
 export function getPositionStyles(node: SceneNode): string {
-  // Only apply absolute positioning if the node has layoutPositioning === 'ABSOLUTE'
-  // or if it's a direct child of a frame/component with auto-layout disabled
-  const shouldPosition = 
-    ('layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE') ||
-    (node.parent && 'layoutMode' in node.parent && node.parent.layoutMode === 'NONE');
+  if (!isAbsolutelyPositioned(node) || !('constraints' in node)) return '';
 
-  if (!shouldPosition) return '';
+  const parent = node.parent as SceneNode & LayoutMixin;
+  const classes = ['absolute'];
 
-  let positionClasses = 'absolute ';
+  // Text that sizes itself keeps its auto width and height
+  const autoResize = node.type === 'TEXT' ? node.textAutoResize : 'NONE';
 
-  // Add position classes
-  if ('x' in node && 'y' in node) {
-    positionClasses += `left-[${Math.round(node.x)}px] top-[${Math.round(node.y)}px] `;
-  }
+  classes.push(...getAxisPositionClasses(
+    node.constraints.horizontal, node.x, node.width, parent.width,
+    { start: 'left', end: 'right', size: 'w', translate: '-translate-x-1/2' },
+    autoResize === 'WIDTH_AND_HEIGHT'
+  ));
+  classes.push(...getAxisPositionClasses(
+    node.constraints.vertical, node.y, node.height, parent.height,
+    { start: 'top', end: 'bottom', size: 'h', translate: '-translate-y-1/2' },
+    autoResize === 'WIDTH_AND_HEIGHT' || autoResize === 'HEIGHT'
+  ));
 
-  // Add size classes if available
-  if ('width' in node && 'height' in node) {
-    positionClasses += `w-[${Math.round(node.width)}px] h-[${Math.round(node.height)}px] `;
-  }
+  return classes.join(' ');
+}
 
-  // Add rotation if available
-  if ('rotation' in node && node.rotation !== 0) {
-    const degrees = Math.round(node.rotation * (180 / Math.PI));
-    positionClasses += `rotate-[${degrees}deg] `;
+/**
+ * Inset and size classes along one axis
+ */
+function getAxisPositionClasses(
+  constraint: ConstraintType,
+  offset: number,
+  size: number,
+  parentSize: number,
+  names: { start: string; end: string; size: string; translate: string },
+  isAutoSized: boolean
+): string[] {
+  const endOffset = parentSize - offset - size;
+  const sizeClass = isAutoSized ? [] : [`${names.size}-${toPixelValue(size)}`];
+
+  switch (constraint) {
+    case 'MAX':
+      return [`${names.end}-${toPixelValue(endOffset)}`, ...sizeClass];
+    case 'CENTER': {
+      const centerOffset = Math.round(offset + size / 2 - parentSize / 2);
+      const start = centerOffset === 0 ? '1/2' : `[calc(50%_${centerOffset > 0 ? '+' : '-'}_${Math.abs(centerOffset)}px)]`;
+      return [`${names.start}-${start}`, names.translate, ...sizeClass];
+    }
+    case 'STRETCH':
+      return [`${names.start}-${toPixelValue(offset)}`, `${names.end}-${toPixelValue(endOffset)}`];
+    case 'SCALE':
+      if (parentSize > 0) {
+        return [
+          `${names.start}-${toPercentValue(offset / parentSize)}`,
+          ...(isAutoSized ? [] : [`${names.size}-${toPercentValue(size / parentSize)}`])
+        ];
+      }
+      return [`${names.start}-${toPixelValue(offset)}`, ...sizeClass];
+    case 'MIN':
+    default:
+      return [`${names.start}-${toPixelValue(offset)}`, ...sizeClass];
   }
+}
 
-  return positionClasses;
-} 
\ No newline at end of file
+function toPixelValue(px: number): string {
+  const rounded = Math.round(px);
+  return rounded === 0 ? '0' : `[${rounded}px]`;
+}
+
+function toPercentValue(ratio: number): string {
+  return `[${Math.round(ratio * 10000) / 100}%]`;
+}
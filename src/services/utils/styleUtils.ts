@@ -759,8 +759,8 @@ function cleanupLayoutClasses(classes: string[]): string[] {
   const hasFlex = classes.some(cls => cls.startsWith('flex'));
 
   return classes.filter(cls => {
-    // If we're using grid, remove flex-related classes
-    if (hasGrid && cls.startsWith('flex')) {
+    // If we're using grid, remove flex-related classes (but keep its own sizing as a flex child)
+    if (hasGrid && cls.startsWith('flex') && !/^flex-(1|auto|initial|none)$/.test(cls)) {
       return false;
     }
 
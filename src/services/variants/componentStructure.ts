@@ -13,9 +13,12 @@ import {
 import { cleanupTailwindClasses as cleanupClasses } from '../utils/styleUtils';
 import { getComponentProps } from '../utils/nodeUtils';
 import { DesignTokens } from '../../types/designTokenTypes';
+import { CodegenOptions } from '../../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../../utils/codegenOptions';
 import { isImageNode } from '../components/imageComponent';
 import { processStyles } from './styleProcessor';
 import { generateSemanticName, sanitizeIdentifier } from './nameUtils';
+import { generateComponentName, propertyNameToProp } from '../../utils/nameUtils';
 
 // Mock function for asset path extraction since we don't have the actual module
 async function getNodeAssetPath(node: SceneNode): Promise<string | null> {
@@ -72,15 +75,24 @@ export interface ComponentStructureNode {
   assetPath?: string;                           // Asset path (for image nodes)
   componentName?: string;                       // Name of the component instance
   componentProps?: any[];                       // Props of the component instance
+  propertyReferences?: PropertyReferences;      // Props driving this node's fields
 }
 
+/**
+ * Prop names of the component properties bound to a node's fields
+ */
+export type PropertyReferences = {
+  [field in 'visible' | 'characters' | 'mainComponent']?: string;
+};
+
 /**
  * Analyze the component structure by looking at all variants
  */
 export async function analyzeComponentStructure(
   componentSet: ComponentSetNode,
   tokens: DesignTokens,
-  variantProps: Record<string, string[]>
+  variantProps: Record<string, string[]>,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
 ): Promise<ComponentStructureNode> {
   // Create the root node that will contain all component content
   const root: ComponentStructureNode = {
@@ -108,7 +120,9 @@ export async function analyzeComponentStructure(
   // First pass: gather information about all nodes across all variants
   if ('children' in componentSet) {
     for (const child of componentSet.children) {
-      console.log('Processing component variant:', child.name);
+      if (options.debug) {
+        console.log('Processing component variant:', child.name);
+      }
       
       if (child.type === 'COMPONENT' && child.variantProperties) {
         // Create a variant key (e.g., "size=large:state=primary")
@@ -119,7 +133,7 @@ export async function analyzeComponentStructure(
         // Extract styles from the component variant itself 
         const componentStyles = await extractStyles(child);
         const processedStyles = processStyles(componentStyles, tokens);
-        const componentTailwindClasses = cleanupClasses(convertStylesToTailwind(processedStyles, tokens));
+        const componentTailwindClasses = cleanupClasses(convertStylesToTailwind(processedStyles, tokens, options));
         
         // Store the component's styles directly on the root node
         if (!root.styles[variantKey]) {
@@ -134,7 +148,7 @@ export async function analyzeComponentStructure(
         
         // Process child nodes to build the component structure
         if ('children' in child && child.children) {
-          await processComponentChildren(child.children, variantKey, nodeMap, tokens);
+          await processComponentChildren(child.children, variantKey, nodeMap, tokens, '', 0, options);
         }
       }
     }
@@ -144,6 +158,9 @@ export async function analyzeComponentStructure(
   const childNodes = await buildNodeStructure(nodeMap, variantProps);
   root.children = childNodes;
   
+  // Generated definitions are named after the nodes, so the names must not repeat
+  assignUniqueCssNames(root.children, new Set([generateComponentName(componentSet.name).toLowerCase()]));
+  
   return root;
 }
 
@@ -156,16 +173,29 @@ export async function processComponentChildren(
   nodeMap: Map<string, any>,
   tokens: DesignTokens,
   parentId: string = '',
-  level: number = 0
+  level: number = 0,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
 ): Promise<void> {
+  // Layers are matched across variants by their path of layer names; repeated
+  // sibling names are told apart by their position among the same-named layers
+  const nameCounts = new Map<string, number>();
+  let previousId: string | null = null;
+  
   for (let i = 0; i < nodes.length; i++) {
     const node = nodes[i];
-    const nodeId = parentId ? `${parentId}_${i}` : `node_${i}`;
+    const nameCount = (nameCounts.get(node.name) || 0) + 1;
+    nameCounts.set(node.name, nameCount);
+    const layerName = nameCount > 1 ? `${node.name} #${nameCount}` : node.name;
+    const nodeId = parentId ? `${parentId} > ${layerName}` : layerName;
+    
+    // A layer first seen in this variant is placed after its previous sibling here
+    const position = { parentId, previousId };
+    previousId = nodeId;
     
     // Check if node has image fills and extract them
     if (isImageNode(node)) {
       const styles = await extractStyles(node);
-      await extractImageAssets(node, styles);
+      await extractImageAssets(node, styles, options);
     }
     
     // Handle component instances specially
@@ -184,20 +214,27 @@ export async function processComponentChildren(
         const instanceComponentName = cleanComponentName(baseComponentName);
         
         // Extract variant properties from the instance
-        const props = getComponentProps(node);
+        const props = getComponentProps(node, mainComponent);
         
         // Store node info as a component reference
-        nodeMap.set(nodeId, {
+        const instanceInfo = nodeMap.get(nodeId) || {
+          ...position,
           node,
           type: 'component',
-          styles: { [variantKey]: '' },
+          styles: {},
           name: baseComponentName,
           componentName: instanceComponentName,
           props: props,
-          variants: { [variantKey]: true }
-        });
+          propertyReferences: getPropertyReferences(node),
+          variants: {}
+        };
+        instanceInfo.styles[variantKey] = '';
+        instanceInfo.variants[variantKey] = true;
+        nodeMap.set(nodeId, instanceInfo);
         
-        console.log('Found instance component:', baseComponentName, '->', instanceComponentName);
+        if (options.debug) {
+          console.log('Found instance component:', baseComponentName, '->', instanceComponentName);
+        }
         
         // Don't process children of instances - they're references to components
         continue;
@@ -208,7 +245,7 @@ export async function processComponentChildren(
     const styles = await extractStyles(node);
     // Process styles to ensure correct color handling
     const processedStyles = processStyles(styles, tokens);
-    const tailwindClasses = cleanupClasses(convertStylesToTailwind(processedStyles, tokens));
+    const tailwindClasses = cleanupClasses(convertStylesToTailwind(processedStyles, tokens, options));
     
     // Generate semantic name for node
     const semanticName = generateSemanticName(node, i, level);
@@ -240,6 +277,7 @@ export async function processComponentChildren(
     // Store or update node info
     if (!nodeMap.has(nodeId)) {
       nodeMap.set(nodeId, {
+        ...position,
         node,
         type: nodeType,
         styles: {},
@@ -247,6 +285,7 @@ export async function processComponentChildren(
         name: semanticName,
         content: {},
         assetPath,
+        propertyReferences: getPropertyReferences(node),
         variants: {}
       });
     }
@@ -267,7 +306,7 @@ export async function processComponentChildren(
     
     // Process child nodes recursively
     if ('children' in node && node.children) {
-      await processComponentChildren(node.children, variantKey, nodeMap, tokens, nodeId, level + 1);
+      await processComponentChildren(node.children, variantKey, nodeMap, tokens, nodeId, level + 1, options);
     }
   }
 }
@@ -326,6 +365,10 @@ export async function buildNodeStructure(
       }
     }
     
+    if (nodeInfo.propertyReferences) {
+      node.propertyReferences = nodeInfo.propertyReferences;
+    }
+    
     // For images, add asset path
     if (nodeInfo.assetPath) {
       node.assetPath = nodeInfo.assetPath;
@@ -335,35 +378,64 @@ export async function buildNodeStructure(
     nodeStructures.set(nodeId, node);
   }
   
-  // Build parent-child relationships
-  for (const nodeId of nodeStructures.keys()) {
+  // Build parent-child relationships, keeping the layer order of the variants
+  for (const [nodeId, nodeInfo] of nodeMap.entries()) {
     const node = nodeStructures.get(nodeId)!;
-    
-    // Add to parent based on node ID structure (e.g., "parent_child")
-    if (!nodeId.includes('_')) {
-      // Top-level nodes
-      topLevelNodes.push(node);
-    } else {
-      // Child nodes go under their parent
-      const parentId = nodeId.substring(0, nodeId.lastIndexOf('_'));
-      const parent = nodeStructures.get(parentId);
-      if (parent) {
-        parent.children.push(node);
-        node.parent = parent;
-      } else {
-        // If parent not found, add to top level
-        topLevelNodes.push(node);
-      }
+    const parent = nodeInfo.parentId ? nodeStructures.get(nodeInfo.parentId) : undefined;
+    const siblings = parent ? parent.children : topLevelNodes;
+    if (parent) {
+      node.parent = parent;
     }
+    
+    // Previous siblings were seen before this node, so they are already placed
+    const previous = nodeInfo.previousId ? nodeStructures.get(nodeInfo.previousId) : undefined;
+    siblings.splice(previous ? siblings.indexOf(previous) + 1 : 0, 0, node);
   }
   
   return topLevelNodes;
 }
 
+/**
+ * Number repeated cssNames in document order, ignoring case
+ * Example: Label, Icon, Label -> Label, Icon, Label2
+ */
+function assignUniqueCssNames(nodes: ComponentStructureNode[], usedNames: Set<string>): void {
+  nodes.forEach(node => {
+    let cssName = node.cssName;
+    for (let index = 2; usedNames.has(cssName.toLowerCase()); index++) {
+      cssName = `${node.cssName}${index}`;
+    }
+    usedNames.add(cssName.toLowerCase());
+    node.cssName = cssName;
+    assignUniqueCssNames(node.children, usedNames);
+  });
+}
+
+/**
+ * Map the component properties bound to a node to the props that drive them
+ */
+function getPropertyReferences(node: SceneNode): PropertyReferences | undefined {
+  const references = node.componentPropertyReferences;
+  if (!references) return undefined;
+
+  const propertyReferences: PropertyReferences = {};
+  (['visible', 'characters', 'mainComponent'] as const).forEach(field => {
+    const propertyName = references[field];
+    if (propertyName) {
+      propertyReferences[field] = propertyNameToProp(propertyName);
+    }
+  });
+  return Object.keys(propertyReferences).length > 0 ? propertyReferences : undefined;
+}
+
 /**
  * Helper function to extract image assets from nodes with image fills
  */
-export async function extractImageAssets(node: SceneNode, styles: any): Promise<void> {
+export async function extractImageAssets(
+  node: SceneNode,
+  styles: any,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): Promise<void> {
   // Skip if no fills property
   if (!('fills' in node)) return;
   
@@ -377,7 +449,9 @@ export async function extractImageAssets(node: SceneNode, styles: any): Promise<
   try {
     // Check if the image has a hash
     if ('imageHash' in imageFill && imageFill.imageHash) {
-      console.log(`Found image fill with hash: ${imageFill.imageHash}`);
+      if (options.debug) {
+        console.log(`Found image fill with hash: ${imageFill.imageHash}`);
+      }
       
       // Set background image hash in styles
       styles.backgroundImage = true;
@@ -0,0 +1,169 @@
+/**
+ * @file compoundVariants.ts
+ * This file contains functions for splitting the classes of every variant
+ * combination into base classes, classes per prop value and CVA compound variants.
+ */
+
+import { VariantStyleMap } from './componentStructure';
+
+/**
+ * Classes that apply when every condition matches
+ */
+export interface CompoundVariant {
+  conditions: Record<string, string>;
+  classes: string[];
+}
+
+/**
+ * The classes of a set of variants split by what they depend on
+ */
+export interface VariantDecomposition {
+  // Classes every variant has
+  base: string[];
+  // Classes each prop value adds, keyed by prop and then value
+  variants: Record<string, Record<string, string[]>>;
+  // Classes that only occur for a combination of prop values
+  compoundVariants: CompoundVariant[];
+}
+
+/**
+ * Split the classes of each variant combination into base classes, classes that
+ * follow a single prop value and compound variants for the rest. A class is given
+ * to a prop value when every variant with that value has it; what remains goes to
+ * the smallest combination of props whose variants all share it.
+ * Example: primary+small "bg-blue-500 px-2", primary+large "bg-blue-500 px-4 shadow",
+ *   secondary+small "bg-white px-2", secondary+large "bg-white px-4"
+ *   -> variant.primary "bg-blue-500", size.small "px-2", size.large "px-4",
+ *      { variant: primary, size: large } "shadow"
+ */
+export function decomposeVariantStyles(
+  styles: VariantStyleMap,
+  variantProps: Record<string, string[]>
+): VariantDecomposition {
+  const propKeys = Object.keys(variantProps);
+  const entries = Object.entries(styles).map(([variantKey, style]) => ({
+    variant: parseVariantKey(variantKey, propKeys),
+    classes: splitClasses(style.tailwindClasses)
+  }));
+
+  const base = entries.length > 0 ?
+    entries[0].classes.filter(cls => entries.every(entry => entry.classes.includes(cls))) :
+    [];
+
+  const variants: Record<string, Record<string, string[]>> = {};
+  propKeys.forEach(propKey => {
+    variants[propKey] = {};
+    variantProps[propKey].forEach(value => {
+      const matching = entries.filter(entry => entry.variant[propKey] === value);
+      variants[propKey][value] = matching.length > 0 ?
+        matching[0].classes.filter(cls =>
+          !base.includes(cls) && matching.every(entry => entry.classes.includes(cls))
+        ) :
+        [];
+    });
+  });
+
+  // Whatever a variant still misses depends on more than one prop
+  const compoundVariants: CompoundVariant[] = [];
+  entries.forEach(entry => {
+    const covered = composeVariantClasses({ base, variants, compoundVariants }, entry.variant);
+    entry.classes
+      .filter(cls => !covered.includes(cls))
+      .forEach(cls => {
+        const conditions = findSharedConditions(cls, entry.variant, entries, propKeys);
+        const existing = compoundVariants.find(compound => sameConditions(compound.conditions, conditions));
+        if (existing) {
+          existing.classes.push(cls);
+        } else {
+          compoundVariants.push({ conditions, classes: [cls] });
+        }
+      });
+  });
+
+  return { base, variants, compoundVariants };
+}
+
+/**
+ * Classes CVA produces for one variant combination
+ */
+export function composeVariantClasses(
+  decomposition: VariantDecomposition,
+  variant: Record<string, string>
+): string[] {
+  const classes = [
+    ...decomposition.base,
+    ...Object.entries(decomposition.variants).flatMap(([propKey, values]) => values[variant[propKey]] || []),
+    ...decomposition.compoundVariants
+      .filter(compound => Object.entries(compound.conditions).every(([propKey, value]) => variant[propKey] === value))
+      .flatMap(compound => compound.classes)
+  ];
+  return [...new Set(classes)];
+}
+
+/**
+ * Check that composing the decomposition gives back exactly the classes of every variant
+ */
+export function reproducesVariantStyles(
+  decomposition: VariantDecomposition,
+  styles: VariantStyleMap,
+  variantProps: Record<string, string[]>
+): boolean {
+  const propKeys = Object.keys(variantProps);
+  return Object.entries(styles).every(([variantKey, style]) => {
+    const expected = new Set(splitClasses(style.tailwindClasses));
+    const actual = composeVariantClasses(decomposition, parseVariantKey(variantKey, propKeys));
+    return actual.length === expected.size && actual.every(cls => expected.has(cls));
+  });
+}
+
+/**
+ * Smallest set of a variant's prop values such that every variant sharing them has the class
+ */
+function findSharedConditions(
+  cls: string,
+  variant: Record<string, string>,
+  entries: Array<{ variant: Record<string, string>; classes: string[] }>,
+  propKeys: string[]
+): Record<string, string> {
+  for (let size = 2; size < propKeys.length; size++) {
+    for (const subset of getSubsets(propKeys, size)) {
+      const matching = entries.filter(entry => subset.every(propKey => entry.variant[propKey] === variant[propKey]));
+      if (matching.every(entry => entry.classes.includes(cls))) {
+        return Object.fromEntries(subset.map(propKey => [propKey, variant[propKey]]));
+      }
+    }
+  }
+  return Object.fromEntries(propKeys.map(propKey => [propKey, variant[propKey]]));
+}
+
+function getSubsets(items: string[], size: number): string[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, index) =>
+    getSubsets(items.slice(index + 1), size - 1).map(subset => [item, ...subset])
+  );
+}
+
+function sameConditions(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
+
+/**
+ * Read the values of the given props from a variant key
+ * Example: "Type=Primary:Size=Small" -> { Type: "Primary", Size: "Small" }
+ */
+function parseVariantKey(variantKey: string, propKeys: string[]): Record<string, string> {
+  const variant: Record<string, string> = {};
+  variantKey.split(':').forEach(part => {
+    const [key, value] = part.split('=');
+    const propKey = propKeys.find(propKey => propKey.toLowerCase() === key?.toLowerCase());
+    if (propKey && value) {
+      variant[propKey] = value;
+    }
+  });
+  return variant;
+}
+
+function splitClasses(classes: string): string[] {
+  return [...new Set(classes.split(' ').filter(Boolean))];
+}
@@ -4,10 +4,13 @@
  * for component variants.
  */
 
-import { ComponentStructureNode } from './componentStructure';
+import { ComponentStructureNode, VariantStyleMap } from './componentStructure';
 import { DesignTokens } from '../../types/designTokenTypes';
-import { extractBaseStyles } from './styleProcessor';
-import { sanitizeIdentifier } from './nameUtils';
+import { CodegenOptions } from '../../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../../utils/codegenOptions';
+import { decomposeVariantStyles, reproducesVariantStyles, VariantDecomposition } from './compoundVariants';
+import { sanitizeIdentifier, toVariantPropName } from './nameUtils';
+import { isBooleanVariant, toBooleanVariantValue, toCvaValue } from './variantUtils';
 
 /**
  * Ensure name is in proper PascalCase format
@@ -26,42 +29,25 @@ function ensurePascalCase(name: string): string {
 export function generateNodeCvaDefinitions(
   node: ComponentStructureNode, 
   allVariantProps: Record<string, string[]>,
-  tokens: DesignTokens
+  tokens: DesignTokens,
+  defaultValues: Record<string, string> = {},
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
 ): string {
   // Skip nodes that don't need variants or don't have a variant name
   if (Object.keys(node.styles).length <= 1 && !node.variantName) {
     return '';
   }
   
-  // Extract base styles that are common across all variants
-  const baseClasses = Object.values(node.styles)
-    .map(style => style.tailwindClasses)
-    .filter(Boolean)
-    .join(' ');
-  
-  // Process base classes to ensure they're clean and optimized
-  // Handle transparency explicitly in base styles
-  let processedBaseClasses = baseClasses;
-  if (baseClasses.includes('bg-transparent')) {
-    // Make sure we keep the transparent background in the base styles
-    processedBaseClasses = baseClasses;
-  } else {
-    // Process base classes normally
-    processedBaseClasses = extractBaseStyles(baseClasses);
-  }
+  // Split the classes of every variant into base, per-value and compound classes
+  const decomposition = decomposeVariantStyles(node.styles, allVariantProps);
+  warnIfNotReproduced(node.name, decomposition, node.styles, allVariantProps);
   
   // Log what we found for debugging
-  console.log(`Generating CVA for ${node.name}:`, {
-    baseClasses: processedBaseClasses,
-    variantCount: Object.keys(node.styles).length
-  });
-  
-  // If no variant-specific styles were found, return empty
-  const hasVariantStyles = Object.keys(node.styles).length > 1;
-  
-  if (!hasVariantStyles && !node.variantName) {
-    console.log(`No variant styles found for ${node.name}, skipping CVA generation`);
-    return '';
+  if (options.debug) {
+    console.log(`Generating CVA for ${node.name}:`, {
+      baseClasses: decomposition.base.join(' '),
+      variantCount: Object.keys(node.styles).length
+    });
   }
   
   // Generate a safe variant name for this node
@@ -78,75 +64,8 @@ export function generateNodeCvaDefinitions(
   
   // Generate the CVA definition
   let cvaDefinition = `const ${cvaVariableName} = cva(`;
-  
-  // Add base classes
-  cvaDefinition += `"${processedBaseClasses}"`;
-  
-  // Add variants section
-  cvaDefinition += `, {\n  variants: {\n`;
-  
-  // Add each variant property
-  Object.entries(allVariantProps).forEach(([propKey, propValues]) => {
-    const safeKey = sanitizeIdentifier(propKey.toLowerCase());
-    
-    cvaDefinition += `    ${safeKey}: {\n`;
-    
-    // Add each value for this property
-    propValues.forEach(propValue => {
-      const safeValue = sanitizeIdentifier(propValue.toLowerCase());
-      
-      // Find variant-specific styles for this property value
-      let styleValue = '""';
-      
-      // Look for a variant key that has this property value
-      for (const variantKey of Object.keys(node.styles)) {
-        // Parse the variant key (e.g. "type=primary:state=default")
-        const variantData: Record<string, string> = {};
-        variantKey.split(':').forEach(part => {
-          const [key, value] = part.split('=');
-          if (key && value) {
-            variantData[key.toLowerCase()] = value;
-          }
-        });
-        
-        // If this variant key has the property value we're looking for
-        if (variantData[propKey.toLowerCase()] === propValue) {
-          const style = node.styles[variantKey];
-          if (style && style.tailwindClasses) {
-            styleValue = `"${style.tailwindClasses}"`;
-            break;
-          }
-        }
-      }
-      
-      // Only add a minimal default for disabled state if absolutely no style is defined
-      if (styleValue === '""' && propKey.toLowerCase() === 'state' && 
-          (propValue.toLowerCase() === 'disabled' || propValue.toLowerCase().includes('disabled'))) {
-        styleValue = '"opacity-50 cursor-not-allowed"';
-      }
-      
-      cvaDefinition += `      ${safeValue}: ${styleValue},\n`;
-    });
-    
-    cvaDefinition += `    },\n`;
-  });
-  
-  cvaDefinition += `  },\n`;
-  
-  // Add default variants
-  cvaDefinition += `  defaultVariants: {\n`;
-  Object.keys(allVariantProps).forEach(propKey => {
-    const safeKey = sanitizeIdentifier(propKey.toLowerCase());
-    const values = allVariantProps[propKey];
-    
-    if (values.length > 0) {
-      const safeValue = sanitizeIdentifier(values[0].toLowerCase());
-      cvaDefinition += `    ${safeKey}: "${safeValue}",\n`;
-    }
-  });
-  cvaDefinition += `  },\n`;
-  
-  // Close the CVA definition
+  cvaDefinition += `"${decomposition.base.join(' ')}", {\n`;
+  cvaDefinition += generateCvaConfig(decomposition, allVariantProps, defaultValues, '  ');
   cvaDefinition += `});`;
   
   return cvaDefinition;
@@ -158,100 +77,148 @@ export function generateNodeCvaDefinitions(
 export function generateAllCvaDefinitions(
   componentName: string,
   structure: ComponentStructureNode,
-  baseStyles: string,
   variantProps: Record<string, string[]>,
-  tokens: DesignTokens
+  tokens: DesignTokens,
+  defaultValues: Record<string, string> = {},
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
 ): string {
   let cvaDefinitions = '';
   
   // Ensure component name is in PascalCase
   const pascalCaseName = ensurePascalCase(componentName);
   
-  // Process the base styles for the main component
-  const filteredBaseStyles = extractBaseStyles(baseStyles);
+  // Split the component's classes into base, per-value and compound classes
+  const decomposition = decomposeVariantStyles(structure.styles, variantProps);
+  warnIfNotReproduced(componentName, decomposition, structure.styles, variantProps);
   
   // Generate the main component CVA definition
   const mainComponentCvaName = `${pascalCaseName}Variants`;
   
   cvaDefinitions += `// Main component CVA\n`;
   cvaDefinitions += `const ${mainComponentCvaName} = cva(\n`;
-  cvaDefinitions += `  "${filteredBaseStyles}",\n`;
+  cvaDefinitions += `  "${decomposition.base.join(' ')}",\n`;
   cvaDefinitions += `  {\n`;
-  cvaDefinitions += `    variants: {\n`;
+  cvaDefinitions += generateCvaConfig(decomposition, variantProps, defaultValues, '    ');
+  cvaDefinitions += `  },\n`;
+  cvaDefinitions += `);\n\n`;
   
-  // Add each variant property
-  Object.entries(variantProps).forEach(([propKey, propValues]) => {
-    const safeKey = sanitizeIdentifier(propKey.toLowerCase());
-    
-    cvaDefinitions += `      ${safeKey}: {\n`;
+  // Generate CVA definitions for descendants if needed; instances style themselves
+  const addNodeDefinitions = (node: ComponentStructureNode) => {
+    if (node.type === 'component') return;
     
-    // Add each value for this property
+    const nodeCvaDefinitions = generateNodeCvaDefinitions(node, variantProps, tokens, defaultValues, options);
+    if (nodeCvaDefinitions) {
+      cvaDefinitions += nodeCvaDefinitions + '\n\n';
+    }
+    node.children.forEach(addNodeDefinitions);
+  };
+  structure.children.forEach(addNodeDefinitions);
+  
+  return cvaDefinitions;
+}
+
+/**
+ * Generate the variants, compoundVariants and defaultVariants of a CVA config
+ */
+function generateCvaConfig(
+  decomposition: VariantDecomposition,
+  variantProps: Record<string, string[]>,
+  defaultValues: Record<string, string>,
+  indent: string
+): string {
+  let config = `${indent}variants: {\n`;
+  
+  // Add each variant property with the classes each of its values adds
+  Object.entries(variantProps).forEach(([propKey, propValues]) => {
+    config += `${indent}  ${toVariantPropName(propKey)}: {\n`;
     propValues.forEach(propValue => {
-      const safeValue = sanitizeIdentifier(propValue.toLowerCase());
-      
-      // Get variant-specific styles
-      let styleValue = '""';
-      
-      // Look for a variant key that has this property value
-      for (const variantKey of Object.keys(structure.styles)) {
-        // Parse the variant key (e.g. "type=primary:state=default")
-        const variantData: Record<string, string> = {};
-        variantKey.split(':').forEach(part => {
-          const [key, value] = part.split('=');
-          if (key && value) {
-            variantData[key.toLowerCase()] = value;
-          }
-        });
-        
-        // If this variant key has the property value we're looking for
-        if (variantData[propKey.toLowerCase()] === propValue) {
-          const style = structure.styles[variantKey];
-          if (style && style.tailwindClasses) {
-            styleValue = `"${style.tailwindClasses}"`;
-            break;
-          }
-        }
-      }
-      
-      // Add default for disabled state
-      if (styleValue === '""' && propKey.toLowerCase() === 'state' && 
-          (propValue.toLowerCase() === 'disabled' || propValue.toLowerCase().includes('disabled'))) {
-        styleValue = '"opacity-50 cursor-not-allowed"';
-      }
-      
-      cvaDefinitions += `        ${safeValue}: ${styleValue},\n`;
+      const classes = decomposition.variants[propKey]?.[propValue] || [];
+      config += `${indent}    ${toCvaValue(propValue, variantProps[propKey])}: "${classes.join(' ')}",\n`;
     });
-    
-    cvaDefinitions += `      },\n`;
+    config += `${indent}  },\n`;
   });
+  config += `${indent}},\n`;
+  
+  // Add classes that depend on a combination of values
+  if (decomposition.compoundVariants.length > 0) {
+    config += `${indent}compoundVariants: [\n`;
+    decomposition.compoundVariants.forEach(({ conditions, classes }) => {
+      config += `${indent}  { ${formatCompoundConditions(conditions, variantProps)}, class: "${classes.join(' ')}" },\n`;
+    });
+    config += `${indent}],\n`;
+  }
   
-  cvaDefinitions += `    },\n`;
+  config += generateDefaultVariants(variantProps, defaultValues, indent);
   
-  // Add default variants
-  cvaDefinitions += `    defaultVariants: {\n`;
+  return config;
+}
+
+/**
+ * Generate the defaultVariants of a CVA or tailwind-variants config from the
+ * component set's default variant
+ */
+export function generateDefaultVariants(
+  variantProps: Record<string, string[]>,
+  defaultValues: Record<string, string>,
+  indent: string
+): string {
+  let config = `${indent}defaultVariants: {\n`;
   Object.keys(variantProps).forEach(propKey => {
-    const safeKey = sanitizeIdentifier(propKey.toLowerCase());
-    const values = variantProps[propKey];
-    
-    if (values.length > 0) {
-      const safeValue = sanitizeIdentifier(values[0].toLowerCase());
-      cvaDefinitions += `      ${safeKey}: "${safeValue}",\n`;
+    const defaultValue = formatDefaultValue(propKey, variantProps[propKey], defaultValues);
+    if (defaultValue) {
+      config += `${indent}  ${toVariantPropName(propKey)}: ${defaultValue},\n`;
     }
   });
-  cvaDefinitions += `    },\n`;
-  cvaDefinitions += `  },\n`;
-  cvaDefinitions += `);\n\n`;
-  
-  // Generate CVA definitions for child nodes if needed
-  for (const child of structure.children) {
-    // Skip nodes that don't need variants
-    if (Object.keys(child.styles).length <= 1 && !child.variantName) continue;
-    
-    const nodeCvaDefinitions = generateNodeCvaDefinitions(child, variantProps, tokens);
-    if (nodeCvaDefinitions) {
-      cvaDefinitions += nodeCvaDefinitions + '\n\n';
-    }
+  config += `${indent}},\n`;
+  return config;
+}
+
+/**
+ * Default of a variant prop as code. Without a known default, switches are off
+ * and other variants use their first value.
+ * Example: "Has Icon" with default "Yes" -> 'true'; "Size" with default "Large" -> '"large"'
+ */
+export function formatDefaultValue(
+  propKey: string,
+  values: string[],
+  defaultValues: Record<string, string>
+): string | undefined {
+  const defaultValue = defaultValues[propKey];
+  if (isBooleanVariant(values)) {
+    return defaultValue ? String(toBooleanVariantValue(defaultValue)) : 'false';
   }
-  
-  return cvaDefinitions;
-} 
\ No newline at end of file
+  if (defaultValue || values.length > 0) {
+    return `"${toCvaValue(defaultValue || values[0], values)}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Format the conditions of a compound variant
+ * Example: { Size: "Small", Disabled: "True" } -> 'size: "small", disabled: true'
+ */
+export function formatCompoundConditions(
+  conditions: Record<string, string>,
+  variantProps: Record<string, string[]>
+): string {
+  return Object.entries(conditions)
+    .map(([propKey, value]) => {
+      const cvaValue = toCvaValue(value, variantProps[propKey]);
+      return `${toVariantPropName(propKey)}: ${isBooleanVariant(variantProps[propKey]) ? cvaValue : `"${cvaValue}"`}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Report variants whose classes the generated config would not give back exactly
+ */
+export function warnIfNotReproduced(
+  name: string,
+  decomposition: VariantDecomposition,
+  styles: VariantStyleMap,
+  variantProps: Record<string, string[]>
+): void {
+  if (!reproducesVariantStyles(decomposition, styles, variantProps)) {
+    console.warn(`CVA variants for ${name} do not reproduce the classes of every design variant`);
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * @file interactionStates.ts
+ * This file contains functions for turning interaction-state variants such as
+ * State=Hover into pseudo-class modifiers on the default state's classes.
+ */
+
+import { ComponentStructureNode } from './componentStructure';
+import { hasBreakpointReset, mergeBreakpointClasses } from '../responsive/breakpointClasses';
+
+// Modifier for each interaction state value; designed focus states are keyboard focus rings.
+// A div never matches :disabled, so the disabled state follows aria-disabled, which the
+// component sets from its `disabled` prop.
+const STATE_MODIFIERS: Record<string, string> = {
+  hover: 'hover',
+  hovered: 'hover',
+  focus: 'focus-visible',
+  focused: 'focus-visible',
+  'focus-visible': 'focus-visible',
+  pressed: 'active',
+  active: 'active',
+  disabled: 'aria-disabled'
+};
+
+const DISABLED_MODIFIER = 'aria-disabled';
+
+// Values of the state property the interaction states are compared against
+const DEFAULT_STATES = ['default', 'normal', 'rest', 'idle', 'enabled'];
+
+// Utilities a state can drop that mergeBreakpointClasses doesn't reset, with the class
+// undoing them; `$1` keeps the side of a border
+const REMOVED_CLASS_RESETS: Array<{ pattern: RegExp; reset: string }> = [
+  { pattern: /^shadow(-.+)?$/, reset: 'shadow-none' },
+  { pattern: /^opacity-\d+$/, reset: 'opacity-100' },
+  { pattern: /^border(-[trblxy])?(-\d+|-\[[\d.]+px\])?$/, reset: 'border$1-0' },
+  { pattern: /^border-(dashed|dotted)$/, reset: 'border-solid' },
+  { pattern: /^ring(-\d+|-\[[\d.]+px\])?$/, reset: 'ring-0' },
+  { pattern: /^rounded(-(xs|sm|md|lg|xl|2xl|3xl|full)|-\[[\d.]+px\])?$/, reset: 'rounded-none' },
+  { pattern: /^blur(-.+)?$/, reset: 'blur-none' },
+  { pattern: /^backdrop-blur(-.+)?$/, reset: 'backdrop-blur-none' },
+  { pattern: /^overflow-(hidden|clip)$/, reset: 'overflow-visible' }
+];
+
+/**
+ * Variant props left after folding the interaction states
+ */
+export interface FoldedStates {
+  variantProps: Record<string, string[]>;
+  // A disabled state was folded into `aria-disabled:` classes the component
+  // must drive with a `disabled` prop
+  disabled: boolean;
+}
+
+/**
+ * Fold the interaction states of a component's state property into the default state.
+ * Each state's difference from the default becomes `hover:`, `focus-visible:`,
+ * `active:` or `aria-disabled:` classes; children use `group-*` modifiers so they follow
+ * the component's own state. The state variants are removed from the structure and
+ * the returned variant props no longer offer them. A state dropping a class without
+ * a reset, such as the background, stays a variant.
+ * Example: State=Default "bg-blue-500", State=Hover "bg-blue-600"
+ *   -> "bg-blue-500 hover:bg-blue-600"
+ */
+export function foldInteractionStates(
+  structure: ComponentStructureNode,
+  variantProps: Record<string, string[]>,
+  stateProperty: string
+): FoldedStates {
+  const unchanged = { variantProps, disabled: false };
+  const propKey = Object.keys(variantProps).find(key => key.toLowerCase() === stateProperty.toLowerCase());
+  if (!propKey) return unchanged;
+
+  const values = variantProps[propKey];
+  const defaultValue = values.find(value => DEFAULT_STATES.includes(value.toLowerCase()));
+  if (!defaultValue) return unchanged;
+
+  // A state dropping a class nothing can undo stays a variant
+  const states = values.filter(value =>
+    STATE_MODIFIERS[value.toLowerCase()] && canFoldState(structure, propKey, defaultValue, value)
+  );
+  if (states.length === 0) return unchanged;
+
+  foldStyles(structure, propKey, defaultValue, states, '');
+  const usesGroup = structure.children
+    .map(child => foldNodeStates(child, propKey, defaultValue, states))
+    .some(Boolean);
+
+  // Children react to hovering or focusing the component itself
+  if (usesGroup) {
+    Object.values(structure.styles).forEach(style => {
+      style.tailwindClasses = `group ${style.tailwindClasses}`.trim();
+    });
+  }
+
+  const remaining = values.filter(value => !states.includes(value));
+  const result = { ...variantProps };
+  if (remaining.length > 1) {
+    result[propKey] = remaining;
+  } else {
+    delete result[propKey];
+  }
+  return {
+    variantProps: result,
+    disabled: states.some(state => STATE_MODIFIERS[state.toLowerCase()] === DISABLED_MODIFIER)
+  };
+}
+
+/**
+ * Fold the states of a child node and its descendants with `group-*` modifiers.
+ * Returns true when any modifier was added.
+ */
+function foldNodeStates(
+  node: ComponentStructureNode,
+  propKey: string,
+  defaultValue: string,
+  states: string[]
+): boolean {
+  let hasModifiers = foldStyles(node, propKey, defaultValue, states, 'group-');
+  node.children.forEach(child => {
+    hasModifiers = foldNodeStates(child, propKey, defaultValue, states) || hasModifiers;
+  });
+  return hasModifiers;
+}
+
+/**
+ * Fold the states of one node's styles. Returns true when any modifier was added.
+ */
+function foldStyles(
+  node: ComponentStructureNode,
+  propKey: string,
+  defaultValue: string,
+  states: string[],
+  modifierPrefix: string
+): boolean {
+  let hasModifiers = false;
+
+  Object.keys(node.styles).forEach(variantKey => {
+    const variant = parseVariantKey(variantKey);
+    if (variant[propKey] === defaultValue) {
+      const base = node.styles[variantKey].tailwindClasses;
+      const modifierClasses = states.flatMap(state => {
+        const stateStyle = node.styles[toVariantKey({ ...variant, [propKey]: state })];
+        if (!stateStyle) return [];
+
+        const modifier = `${modifierPrefix}${STATE_MODIFIERS[state.toLowerCase()]}`;
+        const resets = getRemovedClassResets(base, stateStyle.tailwindClasses) || [];
+        return [
+          ...mergeBreakpointClasses([
+            { prefix: '', classes: base },
+            { prefix: modifier, classes: stateStyle.tailwindClasses }
+          ]).split(' ').filter(cls => cls.startsWith(`${modifier}:`)),
+          ...resets.map(reset => `${modifier}:${reset}`)
+        ];
+      });
+
+      if (modifierClasses.length > 0) {
+        node.styles[variantKey].tailwindClasses = [base, ...new Set(modifierClasses)].join(' ').trim();
+        hasModifiers = true;
+      }
+    }
+  });
+
+  // The state variants now live in the default state's classes
+  Object.keys(node.styles).forEach(variantKey => {
+    if (states.includes(parseVariantKey(variantKey)[propKey])) {
+      delete node.styles[variantKey];
+      delete node.present[variantKey];
+      delete node.content?.[variantKey];
+    }
+  });
+
+  return hasModifiers;
+}
+
+/**
+ * Check that every node's classes in the given state can be expressed as modifiers
+ * on its classes in the default state
+ */
+function canFoldState(
+  node: ComponentStructureNode,
+  propKey: string,
+  defaultValue: string,
+  state: string
+): boolean {
+  const foldsHere = Object.keys(node.styles).every(variantKey => {
+    const variant = parseVariantKey(variantKey);
+    if (variant[propKey] !== defaultValue) return true;
+
+    const stateStyle = node.styles[toVariantKey({ ...variant, [propKey]: state })];
+    return !stateStyle || getRemovedClassResets(node.styles[variantKey].tailwindClasses, stateStyle.tailwindClasses) !== null;
+  });
+  return foldsHere && node.children.every(child => canFoldState(child, propKey, defaultValue, state));
+}
+
+/**
+ * Classes undoing the default state's classes a state drops, or null when a dropped
+ * class has no reset. Classes the state replaces with another value of the same
+ * utility, layout classes mergeBreakpointClasses resets and the colour of a reset
+ * border need none.
+ * Example: "border border-gray-300 shadow-md bg-white", "bg-gray-50" -> ["border-0", "shadow-none"]
+ */
+function getRemovedClassResets(base: string, state: string): string[] | null {
+  const baseClasses = base.split(' ').filter(Boolean);
+  const stateClasses = state.split(' ').filter(Boolean);
+  const addedUtilities = stateClasses.filter(cls => !baseClasses.includes(cls)).map(getUtility);
+  const dropped = baseClasses.filter(cls =>
+    !stateClasses.includes(cls) && !addedUtilities.includes(getUtility(cls)) && !hasBreakpointReset(cls)
+  );
+
+  const resets: string[] = [];
+  const unresolved: string[] = [];
+  dropped.forEach(cls => {
+    const removed = REMOVED_CLASS_RESETS.find(({ pattern }) => pattern.test(cls));
+    if (removed) {
+      resets.push(cls.replace(removed.pattern, removed.reset));
+    } else {
+      unresolved.push(cls);
+    }
+  });
+
+  const resetUtilities = resets.map(getUtility);
+  if (unresolved.some(cls => !resetUtilities.includes(getUtility(cls)))) return null;
+  return [...new Set(resets)];
+}
+
+/**
+ * Example: "md:bg-blue-500" -> "md:bg", "-translate-x-1/2" -> "translate"
+ */
+function getUtility(cls: string): string {
+  const match = cls.match(/^(.*:)?-?([^-]+)/);
+  return match ? `${match[1] || ''}${match[2]}` : cls;
+}
+
+/**
+ * Example: "Variant=Primary:State=Hover" -> { Variant: "Primary", State: "Hover" }
+ */
+function parseVariantKey(variantKey: string): Record<string, string> {
+  const variant: Record<string, string> = {};
+  variantKey.split(':').forEach(part => {
+    const [key, value] = part.split('=');
+    if (key && value) {
+      variant[key] = value;
+    }
+  });
+  return variant;
+}
+
+function toVariantKey(variant: Record<string, string>): string {
+  return Object.entries(variant).map(([key, value]) => `${key}=${value}`).join(':');
+}
@@ -4,7 +4,9 @@
  * for component props.
  */
 
-import { sanitizeIdentifier } from './nameUtils';
+import { toVariantPropName } from './nameUtils';
+import { isBooleanVariant, toCvaValue } from './variantUtils';
+import { propertyNameToProp } from '../../utils/nameUtils';
 
 /**
  * Ensure component name is in proper PascalCase format
@@ -17,12 +19,20 @@ function ensurePascalCase(componentName: string): string {
   return componentName;
 }
 
+// TypeScript type of each non-variant component property
+const PROPERTY_TYPES: Partial<Record<ComponentPropertyType, string>> = {
+  TEXT: 'string',
+  BOOLEAN: 'boolean',
+  INSTANCE_SWAP: 'ReactNode'
+};
+
 /**
  * Generate TypeScript interface for component props
  */
 export function generatePropsInterface(
   componentName: string,
-  variantProps: Record<string, string[]>
+  variantProps: Record<string, string[]>,
+  propertyDefinitions: ComponentPropertyDefinitions = {}
 ): string {
   // Ensure component name is in PascalCase
   const pascalCaseName = ensurePascalCase(componentName);
@@ -31,18 +41,26 @@ export function generatePropsInterface(
   
   // Add each variant property as optional with its appropriate union type
   Object.entries(variantProps).forEach(([propKey, values]) => {
-    if (values.length > 0) {
+    if (isBooleanVariant(values)) {
+      interfaceStr += `  ${toVariantPropName(propKey)}?: boolean;\n`;
+    } else if (values.length > 0) {
       // Format each value with proper quotes and make sure they're sanitized for use as TypeScript literals
-      const valueUnion = values.map(value => 
-        `"${sanitizeIdentifier(value.toLowerCase())}"`
-      ).join(' | ');
+      const valueUnion = values.map(value => `"${toCvaValue(value, values)}"`).join(' | ');
       
       // Add the prop with its type to the interface
-      const safeKey = sanitizeIdentifier(propKey.toLowerCase());
+      const safeKey = toVariantPropName(propKey);
       interfaceStr += `  ${safeKey}?: ${valueUnion};\n`;
     }
   });
   
+  // Add text, boolean and instance swap properties
+  Object.entries(propertyDefinitions).forEach(([propertyName, definition]) => {
+    const type = PROPERTY_TYPES[definition.type];
+    if (type) {
+      interfaceStr += `  ${propertyNameToProp(propertyName)}?: ${type};\n`;
+    }
+  });
+  
   // Add className for external styling
   interfaceStr += `  className?: string;\n`;
   
@@ -105,4 +105,13 @@ export function sanitizeIdentifier(name: string): string {
   }
   
   return sanitized;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Name of the prop a variant property becomes, shared by the props interface, the
+ * CVA config and the instances that pass it
+ * Example: "Has Icon" -> "hasicon"
+ */
+export function toVariantPropName(propertyName: string): string {
+  return sanitizeIdentifier(propertyName.toLowerCase());
+}
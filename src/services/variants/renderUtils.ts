@@ -5,7 +5,8 @@
  */
 
 import { ComponentStructureNode } from './componentStructure';
-import { sanitizeIdentifier } from './nameUtils';
+import { sanitizeIdentifier, toVariantPropName } from './nameUtils';
+import { isBooleanVariant, toBooleanVariantValue, toCvaValue } from './variantUtils';
 
 /**
  * Convert component name with dashes and slashes to PascalCase
@@ -32,7 +33,8 @@ function toPascalCase(componentName: string): string {
  */
 export function generateRenderContentFromStructure(
   structure: ComponentStructureNode,
-  allVariantProps: Record<string, string[]>
+  allVariantProps: Record<string, string[]>,
+  slotNames?: Map<ComponentStructureNode, string>
 ): string {
   // If no children, return an empty fragment
   if (structure.children.length === 0) {
@@ -40,18 +42,114 @@ export function generateRenderContentFromStructure(
   }
   
   // Use React Fragment to wrap multiple children
+  const variantKeys = Object.keys(structure.present);
   return `<>\n${structure.children.map(child => 
-    '    ' + generateNodeJsx(child, 2, allVariantProps).trim()
+    '    ' + generateNodeJsx(child, 2, allVariantProps, slotNames, variantKeys).trim()
   ).join('\n')}\n  </>`;
 }
 
 /**
- * Generate JSX for a node and its children
+ * Generate JSX for a node and its children. Nodes missing from some of the
+ * variants their parent is in are only rendered for the variants that have them.
  */
 export function generateNodeJsx(
   node: ComponentStructureNode, 
   indentLevel: number,
+  allVariantProps: Record<string, string[]>,
+  slotNames?: Map<ComponentStructureNode, string>,
+  parentVariantKeys: string[] = []
+): string {
+  const jsx = generateElementJsx(node, indentLevel, allVariantProps, slotNames);
+  const { visible, mainComponent } = node.propertyReferences || {};
+  const presence = getPresenceCondition(node, parentVariantKeys, allVariantProps);
+  if (!visible && !mainComponent && !presence) {
+    return jsx;
+  }
+
+  // Boolean props toggle the node; instance swap props replace it, falling back
+  // to the instance from the design
+  const indent = '  '.repeat(indentLevel);
+  let expression = jsx.trim();
+  if (mainComponent) {
+    expression = `${mainComponent} ?? ${expression}`;
+  }
+  const conditions = [presence?.includes(' || ') ? `(${presence})` : presence, visible].filter(Boolean);
+  return conditions.length > 0 ?
+    `${indent}{${conditions.join(' && ')} && (${expression})}` :
+    `${indent}{${expression}}`;
+}
+
+/**
+ * Condition on the variant props under which a node is rendered, or undefined when
+ * it is in every variant its parent is in. A single prop that decides whether the
+ * node is there is compared on its own; otherwise each variant is listed.
+ * Example: an icon only in the Size=Large variants -> 'size === "large"'
+ */
+function getPresenceCondition(
+  node: ComponentStructureNode,
+  parentVariantKeys: string[],
   allVariantProps: Record<string, string[]>
+): string | undefined {
+  const presentKeys = parentVariantKeys.filter(variantKey => node.present[variantKey]);
+  if (presentKeys.length === 0 || presentKeys.length === parentVariantKeys.length) {
+    return undefined;
+  }
+
+  const variants = new Map(parentVariantKeys.map(variantKey => [variantKey, parseVariantKey(variantKey)]));
+  const propKeys = Object.keys(allVariantProps);
+  const decidingProp = propKeys.find(propKey => {
+    const values = new Set(presentKeys.map(variantKey => variants.get(variantKey)![propKey]));
+    return parentVariantKeys.every(variantKey =>
+      values.has(variants.get(variantKey)![propKey]) === Boolean(node.present[variantKey]));
+  });
+
+  if (decidingProp) {
+    const values = [...new Set(presentKeys.map(variantKey => variants.get(variantKey)![decidingProp]))];
+    return values
+      .map(value => formatVariantComparison(decidingProp, value, allVariantProps[decidingProp]))
+      .join(' || ');
+  }
+  return presentKeys
+    .map(variantKey => propKeys
+      .map(propKey => formatVariantComparison(propKey, variants.get(variantKey)![propKey], allVariantProps[propKey]))
+      .join(' && '))
+    .map(condition => `(${condition})`)
+    .join(' || ');
+}
+
+/**
+ * Example: "Size", "Large" of ["Small", "Large"] -> 'size === "large"'; "Has Icon", "No" -> '!hasicon'
+ */
+function formatVariantComparison(propKey: string, value: string, values: string[]): string {
+  const propName = toVariantPropName(propKey);
+  if (isBooleanVariant(values)) {
+    return toBooleanVariantValue(value) ? propName : `!${propName}`;
+  }
+  return `${propName} === "${toCvaValue(value, values)}"`;
+}
+
+/**
+ * Example: "Variant=Primary:Size=Large" -> { Variant: "Primary", Size: "Large" }
+ */
+function parseVariantKey(variantKey: string): Record<string, string> {
+  const variant: Record<string, string> = {};
+  variantKey.split(':').forEach(part => {
+    const [key, value] = part.split('=');
+    if (key && value) {
+      variant[key] = value;
+    }
+  });
+  return variant;
+}
+
+/**
+ * Generate JSX for a node itself, without the props that toggle or replace it
+ */
+function generateElementJsx(
+  node: ComponentStructureNode, 
+  indentLevel: number,
+  allVariantProps: Record<string, string[]>,
+  slotNames?: Map<ComponentStructureNode, string>
 ): string {
   const indent = '  '.repeat(indentLevel);
   const childIndent = '  '.repeat(indentLevel + 1);
@@ -62,7 +160,7 @@ export function generateNodeJsx(
       return '';
     }
     return '{ ' + Object.keys(allVariantProps)
-      .map(key => sanitizeIdentifier(key.toLowerCase()))
+      .map(key => toVariantPropName(key))
       .join(', ') + ' }';
   };
 
@@ -93,7 +191,7 @@ export function generateNodeJsx(
         // Pass each variant prop individually
         propsStr = ' ' + propKeys
           .map(key => {
-            const safeKey = sanitizeIdentifier(key.toLowerCase());
+            const safeKey = toVariantPropName(key);
             return `${safeKey}={${safeKey}}`;
           })
           .join(' ');
@@ -113,8 +211,14 @@ export function generateNodeJsx(
   // Create a properly capitalized variant name for the CVA function
   const cvaName = variantName.charAt(0).toUpperCase() + variantName.slice(1) + 'Variants';
   
-  // Check if we need CVA variant styling for this node
-  const needsVariantStyling = Object.keys(node.styles).length > 1 || node.variantName;
+  // Check if we need CVA variant styling for this node; with tailwind-variants
+  // slots, every styled node has a slot instead
+  const needsVariantStyling = slotNames ?
+    slotNames.has(node) :
+    Object.keys(node.styles).length > 1 || node.variantName;
+  const variantClasses = slotNames?.has(node) ?
+    `slots.${slotNames.get(node)}()` :
+    `${cvaName}(${getVariantProps()})`;
   
   // For images, render an img tag
   if (node.type === 'img') {
@@ -123,7 +227,7 @@ export function generateNodeJsx(
     
     if (needsVariantStyling) {
       // Image with variants
-      return `${indent}<img src="${src}" alt="${alt}" className={${cvaName}(${getVariantProps()})} />`;
+      return `${indent}<img src="${src}" alt="${alt}" className={${variantClasses}} />`;
     } else {
       // Image without variants - use a basic class if available
       const baseClass = node.styles && Object.keys(node.styles)[0] ? 
@@ -132,20 +236,31 @@ export function generateNodeJsx(
     }
   }
   
+  // Text bound to a text prop renders the prop
+  if (node.propertyReferences?.characters) {
+    const baseClass = node.styles && Object.keys(node.styles)[0] ? 
+      node.styles[Object.keys(node.styles)[0]].tailwindClasses || '' : '';
+    const className = needsVariantStyling ? `{${variantClasses}}` : `"${baseClass}"`;
+    return `${indent}<${node.type} className=${className}>{${node.propertyReferences.characters}}</${node.type}>`;
+  }
+  
   // For text nodes, make sure to handle variant-specific content
   if (node.type === 'span' && node.content) {
     // If we have different content per variant
-    if (Object.keys(node.content).length > 1) {
+    if (new Set(Object.values(node.content)).size > 1) {
       // Create a content switch based on variants
       const firstVariantKey = Object.keys(allVariantProps)[0];
       if (firstVariantKey) {
-        const safeKey = sanitizeIdentifier(firstVariantKey.toLowerCase());
+        const safeKey = toVariantPropName(firstVariantKey);
         // Use a conditional to select content based on the first variant
         let textContent = `{\n`;
         textContent += `${childIndent}(() => {\n`;
         textContent += `${childIndent}  switch(${safeKey}) {\n`;
         
-        // Add case for each variant value with different content
+        // Add case for each variant value with different content, matching the
+        // prop values the component receives
+        const values = allVariantProps[firstVariantKey];
+        const seenValues = new Set<string>();
         Object.entries(node.content).forEach(([variantKey, content]) => {
           // Parse the variant key to extract the value for our first variant property
           const variantObj: Record<string, string> = {};
@@ -157,23 +272,25 @@ export function generateNodeJsx(
           });
           
           const variantValue = variantObj[firstVariantKey.toLowerCase()];
-          if (variantValue) {
-            textContent += `${childIndent}    case "${variantValue}":\n`;
-            textContent += `${childIndent}      return "${content}";\n`;
+          if (variantValue && !seenValues.has(variantValue)) {
+            seenValues.add(variantValue);
+            const propValue = toCvaValue(variantValue, values);
+            textContent += `${childIndent}    case ${isBooleanVariant(values) ? propValue : `"${propValue}"`}:\n`;
+            textContent += `${childIndent}      return ${JSON.stringify(content)};\n`;
           }
         });
         
         // Add default case
         const defaultContent = node.content[Object.keys(node.content)[0]] || '';
         textContent += `${childIndent}    default:\n`;
-        textContent += `${childIndent}      return "${defaultContent}";\n`;
+        textContent += `${childIndent}      return ${JSON.stringify(defaultContent)};\n`;
         textContent += `${childIndent}  }\n`;
         textContent += `${childIndent}})()`;
         textContent += `\n${indent}}`;
         
         // If we have variant styles, use them
         if (needsVariantStyling) {
-          return `${indent}<span className={${cvaName}(${getVariantProps()})}>${textContent}</span>`;
+          return `${indent}<span className={${variantClasses}}>${textContent}</span>`;
         } else {
           // Use base style
           const baseClass = node.styles && Object.keys(node.styles)[0] ? 
@@ -190,7 +307,7 @@ export function generateNodeJsx(
     
     if (needsVariantStyling) {
       // Text with variants
-      return `${indent}<span className={${cvaName}(${getVariantProps()})}>${content}</span>`;
+      return `${indent}<span className={${variantClasses}}>${content}</span>`;
     } else {
       // Get base styles directly from the node if available
       const baseClass = node.styles && Object.keys(node.styles)[0] ? 
@@ -205,7 +322,7 @@ export function generateNodeJsx(
   
   // If this node has variants, add the variant className
   if (needsVariantStyling) {
-    classNameProp = ` className={${cvaName}(${getVariantProps()})}`;
+    classNameProp = ` className={${variantClasses}}`;
   } else {
     // Use base styles directly
     const baseClass = node.styles && Object.keys(node.styles)[0] ? 
@@ -223,7 +340,7 @@ export function generateNodeJsx(
     nodeJsx += '\n';
     // Render each child
     node.children.forEach(child => {
-      nodeJsx += generateNodeJsx(child, indentLevel + 1, allVariantProps) + '\n';
+      nodeJsx += generateNodeJsx(child, indentLevel + 1, allVariantProps, slotNames, Object.keys(node.present)) + '\n';
     });
     // Closing tag with proper indentation
     nodeJsx += `${indent}</${tagName}>`;
@@ -1,109 +1,111 @@
 /**
- * Helper to generate slots-based variants
+ * @file slotsVariants.ts
+ * This file contains functions for generating a tailwind-variants definition
+ * with one slot per styled element of a component.
  */
-export function generateSlotsVariants(variantProps: Record<string, string[]>, variantMap: Record<string, string>) {
-  // First identify all the slots we need based on the content
-  // This is a simplified approach - in a real scenario you'd need more complex parsing
-  const exampleContent = Object.values(variantMap)[0] || '';
-  const slots = ['base', 'icon', 'text', 'rightIcon'];
-  
-  let slotsCode = `  slots: {\n`;
-  
-  // Generate base slot
-  slotsCode += `    base: 'flex items-center justify-center',\n`;
-  slotsCode += `    icon: 'w-5 h-5 mr-2',\n`;
-  slotsCode += `    text: 'font-medium',\n`;
-  slotsCode += `    rightIcon: 'w-5 h-5 ml-2',\n`;
-  slotsCode += `  },\n`;
-  
-  // Generate variants for each slot
-  slotsCode += `  variants: {\n`;
-  
-  Object.entries(variantProps).forEach(([key, values]) => {
-    const formattedKey = key.split(' ').join('_').toLowerCase();
-    
-    slotsCode += `    ${formattedKey}: {\n`;
-    
-    values.forEach(value => {
-      slotsCode += `      "${value}": {\n`;
-      
-      // Base slot styles
-      slotsCode += `        base: `;
-      if (formattedKey === 'size') {
-        if (value === 'Large') {
-          slotsCode += `'p-4',\n`;
-        } else if (value === 'Medium') {
-          slotsCode += `'p-3',\n`;
-        } else {
-          slotsCode += `'p-2',\n`;
-        }
-      } else if (formattedKey === 'state') {
-        if (value === 'Hover') {
-          slotsCode += `'hover:opacity-90',\n`;
-        } else if (value === 'Disabled') {
-          slotsCode += `'opacity-50 cursor-not-allowed',\n`;
-        } else if (value === 'Pressed') {
-          slotsCode += `'active:scale-95',\n`;
-        } else if (value === 'Focus') {
-          slotsCode += `'focus:ring-2 focus:ring-offset-2',\n`;
-        } else {
-          slotsCode += `'',\n`;
-        }
-      } else {
-        slotsCode += `'',\n`;
-      }
-      
-      // Icon slot styles
-      slotsCode += `        icon: `;
-      if (formattedKey === 'size') {
-        if (value === 'Large') {
-          slotsCode += `'w-6 h-6',\n`;
-        } else if (value === 'Medium') {
-          slotsCode += `'w-5 h-5',\n`;
-        } else {
-          slotsCode += `'w-4 h-4',\n`;
-        }
-      } else {
-        slotsCode += `'',\n`;
-      }
-      
-      // Text slot styles
-      slotsCode += `        text: `;
-      if (formattedKey === 'size') {
-        if (value === 'Large') {
-          slotsCode += `'text-lg',\n`;
-        } else if (value === 'Medium') {
-          slotsCode += `'text-base',\n`;
-        } else {
-          slotsCode += `'text-sm',\n`;
-        }
-      } else if (formattedKey === 'state' && value === 'Disabled') {
-        slotsCode += `'text-opacity-60',\n`;
-      } else {
-        slotsCode += `'',\n`;
-      }
-      
-      // Right icon slot styles
-      slotsCode += `        rightIcon: `;
-      if (formattedKey === 'size') {
-        if (value === 'Large') {
-          slotsCode += `'w-6 h-6',\n`;
-        } else if (value === 'Medium') {
-          slotsCode += `'w-5 h-5',\n`;
-        } else {
-          slotsCode += `'w-4 h-4',\n`;
-        }
-      } else {
-        slotsCode += `'',\n`;
+
+import { ComponentStructureNode } from './componentStructure';
+import { decomposeVariantStyles, VariantDecomposition } from './compoundVariants';
+import { formatCompoundConditions, generateDefaultVariants, warnIfNotReproduced } from './cvaGenerator';
+import { sanitizeIdentifier, toVariantPropName } from './nameUtils';
+import { toCvaValue } from './variantUtils';
+
+/**
+ * Name a slot for the component root and every styled element below it.
+ * The root is `base`; component instances style themselves and get no slot.
+ * Example: root > Icon, Label, Label -> base, icon, label, label2
+ */
+export function getSlotNames(structure: ComponentStructureNode): Map<ComponentStructureNode, string> {
+  const slotNames = new Map<ComponentStructureNode, string>([[structure, 'base']]);
+  const usedNames = new Set(['base']);
+
+  const visit = (node: ComponentStructureNode) => {
+    const isStyled = Object.values(node.styles).some(style => style.tailwindClasses.trim());
+    if (node.type !== 'component' && isStyled) {
+      const name = sanitizeIdentifier(node.variantName || node.cssName || node.name);
+      const baseName = name.charAt(0).toLowerCase() + name.slice(1);
+      let slotName = baseName;
+      for (let index = 2; usedNames.has(slotName); index++) {
+        slotName = `${baseName}${index}`;
       }
-      
-      slotsCode += `      },\n`;
+      usedNames.add(slotName);
+      slotNames.set(node, slotName);
+    }
+    node.children.forEach(visit);
+  };
+  structure.children.forEach(visit);
+
+  return slotNames;
+}
+
+/**
+ * Generate a `tv()` definition whose slots, variants and compound variants carry
+ * the classes of every slotted element
+ */
+export function generateSlotsDefinition(
+  variableName: string,
+  slotNames: Map<ComponentStructureNode, string>,
+  variantProps: Record<string, string[]>,
+  defaultValues: Record<string, string>
+): string {
+  // Split each slot's classes into base, per-value and compound classes
+  const slots: Array<{ name: string; decomposition: VariantDecomposition }> = [];
+  slotNames.forEach((name, node) => {
+    const decomposition = decomposeVariantStyles(node.styles, variantProps);
+    warnIfNotReproduced(node.name, decomposition, node.styles, variantProps);
+    slots.push({ name, decomposition });
+  });
+
+  let code = `const ${variableName} = tv({\n`;
+
+  code += `  slots: {\n`;
+  slots.forEach(({ name, decomposition }) => {
+    code += `    ${name}: "${decomposition.base.join(' ')}",\n`;
+  });
+  code += `  },\n`;
+
+  // Each variant value lists the classes it adds to every slot it changes
+  code += `  variants: {\n`;
+  Object.entries(variantProps).forEach(([propKey, values]) => {
+    code += `    ${toVariantPropName(propKey)}: {\n`;
+    values.forEach(value => {
+      const slotClasses = slots
+        .map(({ name, decomposition }) => ({ name, classes: decomposition.variants[propKey]?.[value] || [] }))
+        .filter(({ classes }) => classes.length > 0);
+      code += `      ${toCvaValue(value, values)}: ${formatSlotClasses(slotClasses)},\n`;
+    });
+    code += `    },\n`;
+  });
+  code += `  },\n`;
+
+  // Compound variants with the same conditions share one entry across slots
+  const compounds = new Map<string, { conditions: Record<string, string>; slotClasses: Array<{ name: string; classes: string[] }> }>();
+  slots.forEach(({ name, decomposition }) => {
+    decomposition.compoundVariants.forEach(({ conditions, classes }) => {
+      const key = formatCompoundConditions(conditions, variantProps);
+      const compound = compounds.get(key) || { conditions, slotClasses: [] };
+      compound.slotClasses.push({ name, classes });
+      compounds.set(key, compound);
     });
-    
-    slotsCode += `    },\n`;
   });
-  
-  slotsCode += `  },\n`;
-  
-  return slotsCode;
-} 
\ No newline at end of file
+  if (compounds.size > 0) {
+    code += `  compoundVariants: [\n`;
+    compounds.forEach(({ slotClasses }, conditions) => {
+      code += `    { ${conditions}, class: ${formatSlotClasses(slotClasses)} },\n`;
+    });
+    code += `  ],\n`;
+  }
+
+  code += generateDefaultVariants(variantProps, defaultValues, '  ');
+  code += `});\n\n`;
+
+  return code;
+}
+
+/**
+ * Example: [{ name: "base", classes: ["p-2"] }] -> '{ base: "p-2" }'
+ */
+function formatSlotClasses(slotClasses: Array<{ name: string; classes: string[] }>): string {
+  if (slotClasses.length === 0) return '{}';
+  return `{ ${slotClasses.map(({ name, classes }) => `${name}: "${classes.join(' ')}"`).join(', ')} }`;
+}
@@ -5,6 +5,8 @@
  */
 
 import { DesignTokens, ColorToken } from '../../types/designTokenTypes';
+import { CodegenOptions } from '../../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../../utils/codegenOptions';
 import { 
   stylesToTailwind as convertStylesToTailwind, 
   findMatchingColor,
@@ -111,29 +113,7 @@ export function processStyles(styles: any, tokens: DesignTokens): any {
     }
   }
   
-  // If we have a raw background color but no tailwind class yet
-  if (styles.backgroundColor && (!processedStyles.backgroundColor || !processedStyles.backgroundColor.startsWith('bg-'))) {
-    // Try to match the hex color to a token
-    const hexColor = styles.backgroundColor.toLowerCase();
-    
-    let foundToken = false;
-    
-    // Look for the hex color in the color tokens
-    if (tokens.colors) {
-      for (const [tokenName, tokenValue] of Object.entries(tokens.colors)) {
-        const tokenColor = typeof tokenValue === 'object' && tokenValue.value ? 
-          String(tokenValue.value).toLowerCase() : '';
-        
-        // Check for direct hex match
-        if (tokenColor === hexColor) {
-          processedStyles.backgroundColor = `bg-${tokenName}`;
-          foundToken = true;
-          break;
-        }
-      }
-    }
-  }
-  
+  // Raw background colors are left for stylesToTailwind to match against the tokens
   return processedStyles;
 }
 
@@ -190,7 +170,10 @@ export function extractBaseStyles(baseClassNames: string): string {
       return;
     }
     
-    if (/^bg-/.test(cls)) {
+    if (/^bg-(gradient-|linear-)/.test(cls)) {
+      // Gradient directions layer over the background color
+      classGroups.other.add(cls);
+    } else if (/^bg-/.test(cls)) {
       classGroups.background.add(cls);
     } else if (/^text-/.test(cls)) {
       classGroups.text.add(cls);
@@ -264,7 +247,8 @@ export function extractBaseStyles(baseClassNames: string): string {
 export function extractVariantStyles(
   styles: VariantStyleMap,
   allVariantProps: Record<string, string[]>,
-  tokens: DesignTokens
+  tokens: DesignTokens,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
 ): Record<string, Record<string, string>> {
   const variants: Record<string, Record<string, string>> = {};
   
@@ -281,11 +265,15 @@ export function extractVariantStyles(
   // Get all variant keys as an array for easier processing
   const variantKeys = Object.keys(styles);
   if (variantKeys.length === 0) {
-    console.log('No variant styles to extract');
+    if (options.debug) {
+      console.log('No variant styles to extract');
+    }
     return variants;
   }
   
-  console.log(`Extracting variant styles from ${variantKeys.length} variants`);
+  if (options.debug) {
+    console.log(`Extracting variant styles from ${variantKeys.length} variants`);
+  }
   
   // First, directly extract any styles found in the variants
   // This ensures we capture all styles explicitly defined
@@ -357,7 +345,9 @@ export function extractVariantStyles(
       
       // If no variants found for this value and we don't already have styles, use defaults as last resort
       if (variantKeysForValue.length === 0) {
-        console.log(`No variants found for ${propKey}=${propValue}`);
+        if (options.debug) {
+          console.log(`No variants found for ${propKey}=${propValue}`);
+        }
         // Only add defaults if we have no existing styles
         if (variants[propKey][propValue].trim() === '') {
           // Add some default styles based on property type and value
@@ -481,7 +471,9 @@ export function extractVariantStyles(
   Object.entries(variants).forEach(([propKey, propValues]) => {
     Object.entries(propValues).forEach(([propValue, classes]) => {
       if (classes.trim() === '') {
-        console.log(`Warning: No styles found for ${propKey}=${propValue}, using minimal defaults`);
+        if (options.debug) {
+          console.log(`Warning: No styles found for ${propKey}=${propValue}, using minimal defaults`);
+        }
         
         // Provide minimal defaults without overriding existing styles
         if (propKey.toLowerCase() === 'state' && propValue.toLowerCase().includes('disabled')) {
@@ -508,6 +500,7 @@ export function extractMeaningfulStyles(allStyles: string, commonStyles: string)
   // Focus on styles that typically change between variants
   const importantPrefixes = [
     'bg-', // Background colors
+    'from-', 'via-', 'to-', // Gradient stops
     'text-', // Text colors
     'border-', // Border styles
     'shadow-', // Shadows
@@ -1,16 +1,21 @@
 /**
  * @file variantComponentGenerator.ts
- * This file contains logic for generating React components with variants using class-variance-authority.
+ * This file contains logic for generating React components with variants using class-variance-authority
+ * or tailwind-variants slots.
  * It analyzes Figma component sets and generates optimized code that uses CVA to handle style variations.
  */
 
 import { DesignTokens } from '../../types/designTokenTypes';
+import { CodegenOptions } from '../../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../../utils/codegenOptions';
 import { Bounds } from '../utils/nodeUtils';
-import { getVariantPropsFromComponentSet } from './variantUtils';
-import { extractCommonClassesFromStyles } from './styleProcessor';
-import { generateComponentName } from './nameUtils';
+import { getDefaultVariantValues, getVariantPropsFromComponentSet } from './variantUtils';
+import { generateComponentName, toVariantPropName } from './nameUtils';
+import { propertyNameToProp } from '../../utils/nameUtils';
 import { generatePropsInterface } from './interfaceGenerator';
-import { generateAllCvaDefinitions } from './cvaGenerator';
+import { formatDefaultValue, generateAllCvaDefinitions } from './cvaGenerator';
+import { generateSlotsDefinition, getSlotNames } from './slotsVariants';
+import { foldInteractionStates } from './interactionStates';
 import { generateRenderContentFromStructure } from './renderUtils';
 import { analyzeComponentStructure, ComponentStructureNode } from './componentStructure';
 
@@ -40,27 +45,39 @@ function toPascalCase(componentName: string): string {
 export async function generateComponentWithVariants(
   componentSet: ComponentSetNode,
   tokens: DesignTokens,
-  parentBounds?: Bounds
+  parentBounds?: Bounds,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
 ): Promise<string> {
   // Step 1: Setup
   const rawComponentName = generateComponentName(componentSet.name);
   const componentName = toPascalCase(rawComponentName);
-  const variantProps = getVariantPropsFromComponentSet(componentSet);
-  console.log('Analyzing component variants for:', componentName);
+  const allVariantProps = getVariantPropsFromComponentSet(componentSet);
+  if (options.debug) {
+    console.log('Analyzing component variants for:', componentName);
+  }
   
   // Step 2: Analyze component structure - now the root directly has component styles
-  const componentStructure = await analyzeComponentStructure(componentSet, tokens, variantProps);
+  const componentStructure = await analyzeComponentStructure(componentSet, tokens, allVariantProps, options);
+  
+  // Interaction states become hover:, focus-visible:, ... classes instead of props
+  const { variantProps, disabled } = foldInteractionStates(componentStructure, allVariantProps, options.stateProperty);
   
-  // Step 3: Extract common and variant-specific styles
-  const baseStyles = extractCommonClassesFromStyles(componentStructure.styles);
+  // A folded disabled state is switched on with a boolean `disabled` prop
+  const propertyDefinitions = { ...componentSet.componentPropertyDefinitions };
+  if (disabled && !Object.keys(propertyDefinitions).some(name => propertyNameToProp(name) === 'disabled')) {
+    propertyDefinitions.Disabled = { type: 'BOOLEAN', defaultValue: false };
+  }
   
-  // Step 4: Generate component code with our new approach
+  // Step 3: Generate component code with our new approach
   const componentCode = generateComponentCode(
     componentName,
     componentStructure,
-    baseStyles,
     variantProps,
-    tokens
+    getDefaultVariantValues(componentSet, variantProps),
+    propertyDefinitions,
+    tokens,
+    options,
+    disabled
   );
   
   return componentCode;
@@ -72,29 +89,45 @@ export async function generateComponentWithVariants(
 function generateComponentCode(
   componentName: string,
   structure: ComponentStructureNode,
-  baseStyles: string,
   variantProps: Record<string, string[]>,
-  tokens: DesignTokens
+  defaultValues: Record<string, string>,
+  propertyDefinitions: ComponentPropertyDefinitions,
+  tokens: DesignTokens,
+  options: CodegenOptions,
+  hasDisabledState: boolean
 ): string {
-  // Generate the props interface
-  const propsInterface = generatePropsInterface(componentName, variantProps);
+  const isTypeScript = options.language === 'typescript';
+  const variantsName = `${componentName}Variants`;
   
-  // Generate CVA definitions
-  const cvaDefinitions = generateAllCvaDefinitions(
-    componentName,
-    structure,
-    baseStyles,
-    variantProps,
-    tokens
-  );
+  // With tailwind-variants, every styled element is a slot of one definition
+  const slotNames = options.variantOutput === 'slots' ? getSlotNames(structure) : undefined;
+  
+  // Text, boolean and instance swap properties; variants are handled by CVA
+  const properties = Object.entries(propertyDefinitions).filter(([, definition]) => definition.type !== 'VARIANT');
+  
+  // Generate the props interface (TypeScript only)
+  const propsInterface = isTypeScript ? generatePropsInterface(componentName, variantProps, propertyDefinitions) : '';
+  
+  // Generate CVA or tailwind-variants definitions
+  const cvaDefinitions = slotNames ?
+    generateSlotsDefinition(variantsName, slotNames, variantProps, defaultValues) :
+    generateAllCvaDefinitions(componentName, structure, variantProps, tokens, defaultValues, options);
   
   // Generate the render content
-  const renderContent = generateRenderContentFromStructure(structure, variantProps);
+  const renderContent = generateRenderContentFromStructure(structure, variantProps, slotNames);
   
   // Combine everything into a single component
   let componentCode = '';
-  componentCode += `import { cva } from "class-variance-authority";\n`;
-  componentCode += `import { cn } from "@/lib/utils";\n\n`;
+  if (slotNames) {
+    componentCode += `import { tv } from "tailwind-variants";\n`;
+  } else {
+    componentCode += `import { cva } from "class-variance-authority";\n`;
+    componentCode += `import { cn } from "@/lib/utils";\n`;
+  }
+  if (isTypeScript && properties.some(([, definition]) => definition.type === 'INSTANCE_SWAP')) {
+    componentCode += `import type { ReactNode } from "react";\n`;
+  }
+  componentCode += `\n`;
   
   // Add the props interface
   componentCode += propsInterface;
@@ -105,37 +138,48 @@ function generateComponentCode(
   // Add the component function
   componentCode += `export function ${componentName}({\n`;
   
-  // Add destructured props with defaults
-  const propKeys = Object.keys(variantProps).map(key => key.toLowerCase().split(' ').join('_'));
-  if (propKeys?.length > 0) {
-    propKeys.forEach((key) => {
-      // Use the first value as default
-      const firstValue = variantProps[key]?.length > 0 ? 
-        `"${variantProps[key][0].toLowerCase().split(' ').join('_')}"` : 
-        'undefined';
-      
-      componentCode += `  ${key.toLowerCase().split(' ').join('_')} = ${firstValue},\n`;
-    });
-  }
+  // Add destructured props with the default variant's values, named like the CVA variant keys
+  const propKeys = Object.keys(variantProps).map(toVariantPropName);
+  Object.entries(variantProps).forEach(([propKey, values], index) => {
+    const defaultValue = formatDefaultValue(propKey, values, defaultValues) || 'undefined';
+    componentCode += `  ${propKeys[index]} = ${defaultValue},\n`;
+  });
+  
+  // Text and boolean props default to the component's defaults; instance swap
+  // props fall back to the instance in the design
+  properties.forEach(([propertyName, definition]) => {
+    const propName = propertyNameToProp(propertyName);
+    componentCode += definition.type === 'INSTANCE_SWAP' ?
+      `  ${propName},\n` :
+      `  ${propName} = ${JSON.stringify(definition.defaultValue)},\n`;
+  });
   
   // Add className prop
   componentCode += `  className,\n`;
   
   // Close the destructuring
   componentCode += `  ...props\n`;
-  componentCode += `}: ${componentName}Props) {\n`;
+  componentCode += isTypeScript ? `}: ${componentName}Props) {\n` : `}) {\n`;
   
   // Create a props object for the variants
   componentCode += `  // Create a variant props object for passing to CVA functions\n`;
   componentCode += `  const variantProps = {\n`;
   propKeys.forEach(key => {
-    componentCode += `    ${key.toLowerCase()},\n`;
+    componentCode += `    ${key},\n`;
   });
-  componentCode += `  };\n\n`;
+  componentCode += `  };\n`;
+  if (slotNames) {
+    componentCode += `  const slots = ${variantsName}(variantProps);\n`;
+  }
+  componentCode += `\n`;
   
   // Add the component return statement with proper className handling
+  const rootClassName = slotNames ?
+    `slots.base({ class: className })` :
+    `cn(${variantsName}(variantProps), className)`;
   componentCode += `  return (\n`;
-  componentCode += `    <div className={cn(${componentName}Variants(variantProps), className)} {...props}>\n`;
+  const disabledAttribute = hasDisabledState ? ` aria-disabled={disabled}` : '';
+  componentCode += `    <div className={${rootClassName}}${disabledAttribute} {...props}>\n`;
   componentCode += `      ${renderContent}\n`;
   componentCode += `    </div>\n`;
   componentCode += `  );\n`;
@@ -1,9 +1,70 @@
 import { DesignTokens } from '../../types/designTokenTypes';
+import { CodegenOptions } from '../../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../../utils/codegenOptions';
 import { Bounds } from '../utils/nodeUtils';
 import { generateComponentBody } from '../components/componentBody';
 import { extractStyles } from '../styleExtractor';
 import { stylesToTailwind } from '../../transformers/stylesToTailwind';
 import { cleanupTailwindClasses } from '../utils/styleUtils';
+import { sanitizeIdentifier } from './nameUtils';
+
+// Value pairs that make a variant property an on/off switch, "on" value first
+const BOOLEAN_VALUE_PAIRS = [['true', 'false'], ['yes', 'no'], ['on', 'off']];
+
+/**
+ * Check if a variant property only switches something on or off
+ * Example: ["False", "True"] or ["Yes", "No"] -> true
+ */
+export function isBooleanVariant(values: string[]): boolean {
+  if (values.length !== 2) return false;
+  const lowerValues = values.map(value => value.toLowerCase());
+  return BOOLEAN_VALUE_PAIRS.some(pair => pair.every(value => lowerValues.includes(value)));
+}
+
+/**
+ * Read the value of a boolean variant property
+ * Example: "Yes" -> true
+ */
+export function toBooleanVariantValue(value: string): boolean {
+  return BOOLEAN_VALUE_PAIRS.some(([on]) => on === value.toLowerCase());
+}
+
+/**
+ * Key of a variant value in a CVA config and the value instances pass for it;
+ * boolean variants use true and false
+ * Example: "Yes" of ["Yes", "No"] -> "true"; "Small" of ["Small", "Large"] -> "small"
+ */
+export function toCvaValue(value: string, values: string[]): string {
+  return isBooleanVariant(values) ? String(toBooleanVariantValue(value)) : sanitizeIdentifier(value.toLowerCase());
+}
+
+/**
+ * Read the value of each variant prop in the component set's default variant,
+ * falling back to the defaults of the variant property definitions
+ * Example: default variant "Size=Small, Has Icon=Yes" -> { Size: "Small", "Has Icon": "Yes" }
+ */
+export function getDefaultVariantValues(
+  componentSet: ComponentSetNode,
+  variantProps: Record<string, string[]>
+): Record<string, string> {
+  let defaultProperties: Record<string, string> = {};
+  try {
+    defaultProperties = componentSet.defaultVariant?.variantProperties || {};
+  } catch (error) {
+    // Component sets with conflicting variants have no default variant
+    console.error('Error getting default variant:', error);
+  }
+  
+  const defaultValues: Record<string, string> = {};
+  Object.entries(variantProps).forEach(([propKey, values]) => {
+    const value = defaultProperties[propKey] ?? componentSet.componentPropertyDefinitions?.[propKey]?.defaultValue;
+    if (typeof value === 'string' && values.includes(value)) {
+      defaultValues[propKey] = value;
+    }
+  });
+  
+  return defaultValues;
+}
 
 /**
  * Get all unique variant props from a component set
@@ -39,7 +100,8 @@ export function getVariantPropsFromComponentSet(componentSet: ComponentSetNode):
 export async function generateVariantMap(
   componentSet: ComponentSetNode, 
   tokens: DesignTokens,
-  parentBounds?: Bounds
+  parentBounds?: Bounds,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
 ): Promise<Record<string, string>> {
   const variantMap: Record<string, string> = {};
   
@@ -55,7 +117,7 @@ export async function generateVariantMap(
         let childContent = '';
         if ('children' in child && child.children) {
           for (const grandchild of child.children) {
-            childContent += await generateComponentBody(grandchild, tokens);
+            childContent += await generateComponentBody(grandchild, tokens, options);
           }
         }
         
@@ -73,7 +135,8 @@ export async function generateVariantMap(
 export async function extractVariantStyles(
   componentSet: ComponentSetNode, 
   tokens: DesignTokens,
-  parentBounds?: Bounds
+  parentBounds?: Bounds,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
 ): Promise<Record<string, Record<string, string>>> {
   const variantProps = getVariantPropsFromComponentSet(componentSet);
   const variantStyles: Record<string, Record<string, string>> = {};
@@ -91,7 +154,7 @@ export async function extractVariantStyles(
     for (const child of componentSet.children) {
       if (child.type === 'COMPONENT' && child.variantProperties) {
         const styles = await extractStyles(child);
-        const tailwindClasses = cleanupTailwindClasses(stylesToTailwind(styles, tokens));
+        const tailwindClasses = cleanupTailwindClasses(stylesToTailwind(styles, tokens, options));
         
         // Associate these styles with each variant property of this component
         Object.entries(child.variantProperties).forEach(([key, value]) => {
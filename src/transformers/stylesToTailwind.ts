@@ -1,6 +1,12 @@
-import { StyleProperties } from '../types/styleTypes';
+import { StyleProperties, BackgroundGradient, BackgroundLayer, NodeTransform } from '../types/styleTypes';
 import { DesignTokens, ColorToken } from '../types/designTokenTypes';
 import { styleNameToVariable } from '../utils/nameUtils';
+import { CodegenOptions } from '../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS, convertLengths } from '../utils/codegenOptions';
+import { gradientToCss } from '../utils/gradientUtils';
+import { backgroundLayerToCss } from '../utils/backgroundUtils';
+import { getSquirclePath, CornerRadii } from '../utils/squircleUtils';
+import { getBackdropBlurTokenName } from '../utils/effectUtils';
 
 // Helper function to normalize flex property values
 function normalizeFlexValue(property: string, value: string): string {
@@ -221,15 +227,15 @@ function hexToRgb(hex: string): { r: number; g: number; b: number; a?: number }
   return null;
 }
 
-// Helper function to parse RGB color to components
+// Helper function to parse RGB color to components, on the same 0-255 scale as hexToRgb
 function parseRgb(color: string): { r: number; g: number; b: number; a?: number } | null {
   // Handle rgb format
   const rgbMatch = color.match(/rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)/);
   if (rgbMatch) {
     return {
-      r: parseInt(rgbMatch[1], 10) / 255,
-      g: parseInt(rgbMatch[2], 10) / 255,
-      b: parseInt(rgbMatch[3], 10) / 255
+      r: parseInt(rgbMatch[1], 10),
+      g: parseInt(rgbMatch[2], 10),
+      b: parseInt(rgbMatch[3], 10)
     };
   }
 
@@ -237,9 +243,9 @@ function parseRgb(color: string): { r: number; g: number; b: number; a?: number
   const rgbaMatch = color.match(/rgba\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*([0-9.]+)\s*\)/);
   if (rgbaMatch) {
     return {
-      r: parseInt(rgbaMatch[1], 10) / 255,
-      g: parseInt(rgbaMatch[2], 10) / 255,
-      b: parseInt(rgbaMatch[3], 10) / 255,
+      r: parseInt(rgbaMatch[1], 10),
+      g: parseInt(rgbaMatch[2], 10),
+      b: parseInt(rgbaMatch[3], 10),
       a: parseFloat(rgbaMatch[4])
     };
   }
@@ -467,14 +473,10 @@ function getRgba(value: string): string | null {
   if (value.startsWith('#')) {
     const rgb = hexToRgb(value);
     if (rgb) {
-      const r = Math.round(rgb.r * 255);
-      const g = Math.round(rgb.g * 255);
-      const b = Math.round(rgb.b * 255);
-      
       if (rgb.a !== undefined && rgb.a < 1) {
-        return `rgba(${r}, ${g}, ${b}, ${rgb.a})`;
+        return `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${rgb.a})`;
       } else {
-        return `rgb(${r}, ${g}, ${b})`;
+        return `rgb(${rgb.r}, ${rgb.g}, ${rgb.b})`;
       }
     }
   }
@@ -606,23 +608,65 @@ export function findMatchingToken(
   return null;
 }
 
-export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens): string {
+export function stylesToTailwind(
+  styles: StyleProperties,
+  tokens: DesignTokens,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): string {
   const tailwindClasses: string[] = [];
   // Track which properties we've already added to avoid duplicates
   const addedProperties = new Set<string>();
   
-  // Disable the generation of all color classes for debugging
-  const debugMode = false;
-  const debugAllColors = false; // Set this to false to prevent generating all color classes
+  // With the arbitrary strategy, tokens and the Tailwind scales are bypassed
+  const useTokens = options.classNameStrategy === 'tokens';
   
   // Skip adding background colors if they weren't explicitly specified
-  const skipImplicitBackgrounds = true;
+  const skipImplicitBackgrounds = options.skipImplicitBackgrounds;
   
   // Helper function to find matching token - delegate to the exported function
   const findToken = (value: string, tokenType: 'colors' | 'typography' | 'spacing' | 'effects' | 'borderRadius'): string | null => {
-    return findMatchingToken(value, tokenType, tokens);
+    return useTokens ? findMatchingToken(value, tokenType, tokens) : null;
+  };
+  
+  // Helper functions to snap colors and spacing to the Tailwind scales
+  const matchColor = (color: string) => useTokens ? matchToTailwindColor(color) : null;
+  const toSpacing = (px: string) => useTokens ? pxToTailwindSpacing(px) : `[${parseInt(px)}px]`;
+  
+  // Helper function to convert a gap length to a gap class, preferring spacing tokens
+  const toGapClass = (prefix: string, value: string) => {
+    const spacingToken = findToken(value, 'spacing');
+    return spacingToken ? `${prefix}-${spacingToken}` : `${prefix}-${toSpacing(parseInt(value).toString())}`;
+  };
+  
+  // Helper function to resolve a color to a class suffix (e.g. "brand-primary", "blue-500" or "[#fff]")
+  const toColorValue = (color: string): string => {
+    const colorToken = findToken(color, 'colors');
+    if (colorToken) {
+      return colorToken;
+    }
+    
+    const standardizedColor = getRgba(color) || color;
+    const tailwindMatch = matchColor(standardizedColor);
+    if (!tailwindMatch) {
+      return `[${standardizedColor}]`;
+    }
+    
+    const colorName = tailwindMatch.shade ? `${tailwindMatch.name}-${tailwindMatch.shade}` : tailwindMatch.name;
+    return tailwindMatch.opacity !== undefined ?
+      `${colorName}/${Math.round(tailwindMatch.opacity * 100)}` :
+      colorName;
   };
   
+  const strokePrefix = getStrokePrefix(styles);
+  
+  // Without tokens, a fill style is emitted as the color it resolves to
+  if (!useTokens && styles.styleReferences?.fill && !styles.backgroundColor && !styles.color) {
+    const fillToken = tokens.colors[styles.styleReferences.fill];
+    if (fillToken) {
+      styles = { ...styles, backgroundColor: fillToken.value };
+    }
+  }
+  
   // First check if we have style references
   const hasStyleReferences = Boolean(styles.styleReferences);
   const hasBgStyleReference = Boolean(styles.styleReferences?.fill);
@@ -639,7 +683,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
   const shouldAddBackgroundColor = hasBgStyleReference || hasExplicitBgColor || !skipImplicitBackgrounds;
   
   // Handle style references first
-  if (styles.styleReferences) {
+  if (styles.styleReferences && useTokens) {
     // Fill styles (background colors)
     if (styles.styleReferences.fill && shouldAddBackgroundColor) {
       const tokenName = styleNameToVariable(styles.styleReferences.fill);
@@ -709,25 +753,42 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
       }
     }
     
-    // Effect styles (shadows)
+    // Effect styles (shadows and blurs)
     if (styles.styleReferences.effect) {
       const tokenName = styleNameToVariable(styles.styleReferences.effect);
-      if (tokens.effects[tokenName] || tokens.effects[styles.styleReferences.effect]) {
-        tailwindClasses.push(`shadow-${tokenName}`);
+      const effectToken = tokens.effects[tokenName] || tokens.effects[styles.styleReferences.effect];
+      if (effectToken) {
+        if (effectToken.value.shadows.length > 0) {
+          tailwindClasses.push(`shadow-${tokenName}`);
+          addedProperties.add('boxShadow');
+        }
+        if (effectToken.value.layerBlur !== undefined) {
+          tailwindClasses.push(`blur-${tokenName}`);
+          addedProperties.add('blur');
+        }
+        if (effectToken.value.backgroundBlur !== undefined) {
+          // v3 configures backdropBlur separately; v4 shares the --blur-* tokens
+          const backdropName = options.tailwindVersion === 'v4' ?
+            getBackdropBlurTokenName(tokenName, effectToken.value) :
+            tokenName;
+          tailwindClasses.push(`backdrop-blur-${backdropName}`);
+          addedProperties.add('backdropBlur');
+        }
       }
     }
     
-    // Stroke styles (borders)
+    // Stroke styles (borders, rings or outlines)
     if (styles.styleReferences.stroke) {
       const tokenName = styleNameToVariable(styles.styleReferences.stroke);
       if (tokens.colors[tokenName] || tokens.colors[styles.styleReferences.stroke]) {
-        tailwindClasses.push(`border-${tokenName}`);
+        tailwindClasses.push(`${strokePrefix}-${tokenName}`);
+        addedProperties.add('borderColor');
       }
     }
   }
   
   // Handle variables
-  if (styles.variableReferences) {
+  if (styles.variableReferences && useTokens) {
     for (const [name, _] of Object.entries(styles.variableReferences)) {
       const tokenName = styleNameToVariable(name);
       
@@ -790,7 +851,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
         } else {
           // If no token match, standardize to RGB/RGBA and try Tailwind matching
           const standardizedColor = getRgba(styles.backgroundColor) || styles.backgroundColor;
-          const tailwindMatch = matchToTailwindColor(standardizedColor);
+          const tailwindMatch = matchColor(standardizedColor);
           
           if (tailwindMatch) {
             // Use Tailwind color
@@ -822,6 +883,46 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
     }
   }
   
+  // Handle background gradients
+  if (styles.backgroundGradient && !addedProperties.has('backgroundImage')) {
+    tailwindClasses.push(...gradientToTailwind(styles.backgroundGradient, toColorValue, options));
+    addedProperties.add('backgroundImage');
+  }
+  
+  // Handle stacked fills
+  if (styles.backgroundLayers && !addedProperties.has('backgroundImage')) {
+    tailwindClasses.push(...backgroundLayersToTailwind(styles.backgroundLayers));
+    addedProperties.add('backgroundImage');
+  }
+  
+  // Handle shadows
+  if (styles.boxShadow && !addedProperties.has('boxShadow')) {
+    tailwindClasses.push(`shadow-[${toArbitraryValue(styles.boxShadow)}]`);
+    addedProperties.add('boxShadow');
+  }
+  
+  // Handle layer and background blur
+  if (styles.blur && !addedProperties.has('blur')) {
+    tailwindClasses.push(blurToTailwind('blur', styles.blur, useTokens));
+    addedProperties.add('blur');
+  }
+  if (styles.backdropBlur && !addedProperties.has('backdropBlur')) {
+    tailwindClasses.push(blurToTailwind('backdrop-blur', styles.backdropBlur, useTokens));
+    addedProperties.add('backdropBlur');
+  }
+  
+  // Handle rotation, skew and mirroring
+  if (styles.transform && !addedProperties.has('transform')) {
+    tailwindClasses.push(...transformToTailwind(styles.transform, styles.transformOrigin, useTokens));
+    addedProperties.add('transform');
+  }
+  
+  // Handle layer blend mode
+  if (styles.blendMode && !addedProperties.has('blendMode')) {
+    tailwindClasses.push(`mix-blend-${styles.blendMode}`);
+    addedProperties.add('blendMode');
+  }
+  
   // Handle opacity
   if (styles.opacity && !addedProperties.has('opacity')) {
     const opacityValue = parseFloat(styles.opacity);
@@ -920,7 +1021,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
         } else {
           // If no token match, standardize to RGB/RGBA and try Tailwind matching
           const standardizedColor = getRgba(styles.color) || styles.color;
-          const tailwindMatch = matchToTailwindColor(standardizedColor);
+          const tailwindMatch = matchColor(standardizedColor);
           
           if (tailwindMatch) {
             // Use Tailwind color
@@ -971,7 +1072,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
         96: 'text-8xl'
       };
       
-      if (Math.abs(closestStandardSize - size) <= 2 && sizeMap[closestStandardSize]) {
+      if (useTokens && Math.abs(closestStandardSize - size) <= 2 && sizeMap[closestStandardSize]) {
         tailwindClasses.push(sizeMap[closestStandardSize]);
         addedProperties.add('fontSize');
       } else {
@@ -1012,6 +1113,33 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
     }
   }
   
+  // Handle italics, text case and decoration, which text styles don't cover
+  if (styles.italic !== undefined) {
+    tailwindClasses.push(styles.italic ? 'italic' : 'not-italic');
+  }
+  
+  if (styles.textCase) {
+    tailwindClasses.push(TEXT_CASE_CLASSES[styles.textCase] || `[font-variant-caps:${styles.textCase}]`);
+  }
+  
+  if (styles.textDecoration) {
+    tailwindClasses.push(styles.textDecoration);
+  }
+  
+  if (styles.paragraphIndent) {
+    tailwindClasses.push(`indent-${toSpacing(parseInt(styles.paragraphIndent).toString())}`);
+  }
+  
+  // Paragraph spacing separates the <p> elements a spaced text is rendered as
+  if (styles.paragraphSpacing) {
+    tailwindClasses.push(`space-y-${toSpacing(parseInt(styles.paragraphSpacing).toString())}`);
+  }
+  
+  // Handle truncation
+  if (styles.textTruncation === 'ending') {
+    tailwindClasses.push(styles.maxLines ? `line-clamp-${styles.maxLines}` : 'truncate');
+  }
+  
   // Handle layout properties
   if (styles.width) {
     if (styles.width === '100%') {
@@ -1027,78 +1155,45 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
     }
   }
   
-  // Handle border properties
+  // Handle strokes as borders, inset rings or outlines
   if (styles.strokeWeight && !addedProperties.has('border')) {
-    // Extract the border width value
-    const borderMatch = styles.strokeWeight.match(/(\d+)px/);
-    if (borderMatch) {
-      const borderWidth = parseInt(borderMatch[1]);
-      // Add the appropriate Tailwind border class
-      if (borderWidth === 1) {
-        tailwindClasses.push('border');
-      } else if (borderWidth > 0) {
-        tailwindClasses.push(`border-${borderWidth}`);
-      }
-      
-      // If we have a border property with color information
-      if (styles.border) {
-        // Try to extract color information
-        const colorMatch = styles.border.match(/#[0-9a-fA-F]{3,8}|rgba?\([^)]+\)/);
-        if (colorMatch) {
-          const colorValue = colorMatch[0];
-          
-          // First try to find a token match - prioritize custom tokens
-          const colorToken = findToken(colorValue, 'colors');
-          
-          if (colorToken) {
-            // Use the custom token
-            tailwindClasses.push(`border-${colorToken}`);
-          } else {
-            // If no token match, standardize to RGB/RGBA and try Tailwind matching
-            const standardizedColor = getRgba(colorValue) || colorValue;
-            const tailwindMatch = matchToTailwindColor(standardizedColor);
-            
-            if (tailwindMatch) {
-              // Use Tailwind color
-              let colorClass = '';
-              if (tailwindMatch.shade) {
-                colorClass = `border-${tailwindMatch.name}-${tailwindMatch.shade}`;
-              } else {
-                colorClass = `border-${tailwindMatch.name}`;
-              }
-              
-              // Add opacity modifier if needed
-              if (tailwindMatch.opacity !== undefined) {
-                const opacityValue = Math.round(tailwindMatch.opacity * 100);
-                colorClass += `/${opacityValue}`;
-              }
-              
-              tailwindClasses.push(colorClass);
-            } else {
-              // Last resort: arbitrary value - use standardized color if available
-              tailwindClasses.push(`border-[${standardizedColor}]`);
-            }
-          }
-        }
-      }
-      
-      // Handle border style (solid, dashed, dotted)
-      if (styles.borderStyle) {
-        switch (styles.borderStyle) {
-          case 'solid':
-            // 'solid' is the default, so no class needed
-            break;
-          case 'dashed':
-            tailwindClasses.push('border-dashed');
-            break;
-          case 'dotted':
-            tailwindClasses.push('border-dotted');
-            break;
-        }
+    const weight = parseFloat(styles.strokeWeight);
+    const dashStyle = styles.borderStyle === 'dashed' || styles.borderStyle === 'dotted' ? styles.borderStyle : undefined;
+    
+    if (styles.borderWidths) {
+      // Only borders can differ per side
+      const { top, right, bottom, left } = styles.borderWidths;
+      ([['t', top], ['r', right], ['b', bottom], ['l', left]] as const).forEach(([side, width]) => {
+        if (width > 0) tailwindClasses.push(strokeWidthToTailwind(`border-${side}`, width, useTokens));
+      });
+    } else if (strokePrefix === 'ring') {
+      tailwindClasses.push(strokeWidthToTailwind('ring', weight, useTokens), 'ring-inset');
+    } else if (strokePrefix === 'outline') {
+      tailwindClasses.push(dashStyle ? `outline-${dashStyle}` : 'outline', strokeWidthToTailwind('outline', weight, useTokens));
+      // Pull centered strokes halfway in and inside strokes all the way in
+      const inset = styles.strokeAlign === 'OUTSIDE' ? 0 : styles.strokeAlign === 'CENTER' ? weight / 2 : weight;
+      if (inset > 0) {
+        tailwindClasses.push(useTokens && STROKE_WIDTHS.includes(inset) ?
+          `-outline-offset-${inset}` :
+          `-outline-offset-[${inset}px]`);
       }
-      
-      addedProperties.add('border');
+    } else if (weight > 0) {
+      tailwindClasses.push(strokeWidthToTailwind('border', weight, useTokens));
     }
+    
+    // Stroke color, unless a stroke style already set it
+    const colorMatch = styles.border?.match(/#[0-9a-fA-F]{3,8}|rgba?\([^)]+\)/);
+    if (colorMatch && !addedProperties.has('borderColor')) {
+      tailwindClasses.push(`${strokePrefix}-${toColorValue(colorMatch[0])}`);
+      addedProperties.add('borderColor');
+    }
+    
+    // Solid is the default border style
+    if (strokePrefix === 'border' && dashStyle) {
+      tailwindClasses.push(`border-${dashStyle}`);
+    }
+    
+    addedProperties.add('border');
   }
   
   // Handle border radius
@@ -1111,7 +1206,13 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
     } else {
       // Check if it's a px value
       const radiusMatch = styles.borderRadius.match(/(\d+)px/);
-      if (radiusMatch) {
+      if (radiusMatch && !useTokens) {
+        // Keep the exact radius, with underscores for the spaces between corners
+        if (styles.borderRadius.split(' ').some(v => parseInt(v) > 0)) {
+          tailwindClasses.push(`rounded-[${styles.borderRadius.trim().replace(/\s+/g, '_')}]`);
+          addedProperties.add('borderRadius');
+        }
+      } else if (radiusMatch) {
         const radiusValue = parseInt(radiusMatch[1]);
         // Only add border radius class if it's greater than 0
         if (radiusValue > 0) {
@@ -1149,6 +1250,16 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
     }
   }
   
+  // Handle corner smoothing. Unless an exact clip is asked for, the circular radius
+  // above approximates Figma's smoothed corners, which curve in earlier and tighter.
+  if (styles.cornerSmoothing && options.cornerSmoothing === 'clip-path' && !addedProperties.has('clipPath')) {
+    const clipPath = cornerSmoothingToClipPath(styles);
+    if (clipPath) {
+      tailwindClasses.push(clipPath);
+      addedProperties.add('clipPath');
+    }
+  }
+  
   // Handle position
   if (styles.position && !addedProperties.has('position')) {
     // Map position values directly to Tailwind classes
@@ -1181,7 +1292,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
             const pixelMatch = value.match(/(\d+)px/);
             if (pixelMatch) {
               const pixelValue = parseInt(pixelMatch[1]);
-              tailwindClasses.push(`${prop}-${pxToTailwindSpacing(pixelValue.toString())}`);
+              tailwindClasses.push(`${prop}-${toSpacing(pixelValue.toString())}`);
             } else {
               tailwindClasses.push(`${prop}-[${value}]`);
             }
@@ -1206,13 +1317,13 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
         if (parsedMargin.top === parsedMargin.right && 
             parsedMargin.right === parsedMargin.bottom && 
             parsedMargin.bottom === parsedMargin.left) {
-          tailwindClasses.push(`m-${pxToTailwindSpacing(parsedMargin.top)}`);
+          tailwindClasses.push(`m-${toSpacing(parsedMargin.top)}`);
         } else {
           // Otherwise, use individual margin classes
-          tailwindClasses.push(`mt-${pxToTailwindSpacing(parsedMargin.top)}`);
-          tailwindClasses.push(`mr-${pxToTailwindSpacing(parsedMargin.right)}`);
-          tailwindClasses.push(`mb-${pxToTailwindSpacing(parsedMargin.bottom)}`);
-          tailwindClasses.push(`ml-${pxToTailwindSpacing(parsedMargin.left)}`);
+          tailwindClasses.push(`mt-${toSpacing(parsedMargin.top)}`);
+          tailwindClasses.push(`mr-${toSpacing(parsedMargin.right)}`);
+          tailwindClasses.push(`mb-${toSpacing(parsedMargin.bottom)}`);
+          tailwindClasses.push(`ml-${toSpacing(parsedMargin.left)}`);
         }
         addedProperties.add('margin');
       }
@@ -1236,7 +1347,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
         const marginMatch = styles[prop].match(/(\d+)px/);
         if (marginMatch) {
           const marginValue = parseInt(marginMatch[1]);
-          tailwindClasses.push(`${tailwindPrefix}-${pxToTailwindSpacing(marginValue.toString())}`);
+          tailwindClasses.push(`${tailwindPrefix}-${toSpacing(marginValue.toString())}`);
         } else {
           tailwindClasses.push(`${tailwindPrefix}-[${styles[prop]}]`);
         }
@@ -1271,7 +1382,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
         if (radiusMatch) {
           const radiusValue = parseInt(radiusMatch[1]);
           if (radiusValue > 0) {
-            const radius = mapRadiusToTailwind(radiusValue);
+            const radius = useTokens ? mapRadiusToTailwind(radiusValue) : `[${radiusValue}px]`;
             if (radius) {
               tailwindClasses.push(`rounded-tl-${radius}`);
             }
@@ -1284,7 +1395,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
         if (radiusMatch) {
           const radiusValue = parseInt(radiusMatch[1]);
           if (radiusValue > 0) {
-            const radius = mapRadiusToTailwind(radiusValue);
+            const radius = useTokens ? mapRadiusToTailwind(radiusValue) : `[${radiusValue}px]`;
             if (radius) {
               tailwindClasses.push(`rounded-tr-${radius}`);
             }
@@ -1297,7 +1408,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
         if (radiusMatch) {
           const radiusValue = parseInt(radiusMatch[1]);
           if (radiusValue > 0) {
-            const radius = mapRadiusToTailwind(radiusValue);
+            const radius = useTokens ? mapRadiusToTailwind(radiusValue) : `[${radiusValue}px]`;
             if (radius) {
               tailwindClasses.push(`rounded-bl-${radius}`);
             }
@@ -1310,7 +1421,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
         if (radiusMatch) {
           const radiusValue = parseInt(radiusMatch[1]);
           if (radiusValue > 0) {
-            const radius = mapRadiusToTailwind(radiusValue);
+            const radius = useTokens ? mapRadiusToTailwind(radiusValue) : `[${radiusValue}px]`;
             if (radius) {
               tailwindClasses.push(`rounded-br-${radius}`);
             }
@@ -1350,7 +1461,39 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
   }
   
   if (styles.display) {
-    tailwindClasses.push(styles.display === 'flex' ? 'flex' : 'block');
+    tailwindClasses.push(['flex', 'grid'].includes(styles.display) ? styles.display : 'block');
+  }
+  
+  // Handle grid tracks; Tailwind v3 only has utilities for up to 12
+  if (styles.gridColumns) {
+    tailwindClasses.push(styles.gridColumns <= 12 || options.tailwindVersion === 'v4' ?
+      `grid-cols-${styles.gridColumns}` :
+      `grid-cols-[repeat(${styles.gridColumns},minmax(0,1fr))]`);
+  }
+  
+  if (styles.gridRows) {
+    tailwindClasses.push(styles.gridRows <= 12 || options.tailwindVersion === 'v4' ?
+      `grid-rows-${styles.gridRows}` :
+      `grid-rows-[repeat(${styles.gridRows},minmax(0,1fr))]`);
+  }
+  
+  if (styles.columnGap && styles.columnGap === styles.rowGap) {
+    tailwindClasses.push(toGapClass('gap', styles.columnGap));
+  } else {
+    if (styles.columnGap) {
+      tailwindClasses.push(toGapClass('gap-x', styles.columnGap));
+    }
+    if (styles.rowGap) {
+      tailwindClasses.push(toGapClass('gap-y', styles.rowGap));
+    }
+  }
+  
+  if (styles.gridColumnSpan) {
+    tailwindClasses.push(`col-span-${styles.gridColumnSpan}`);
+  }
+  
+  if (styles.gridRowSpan) {
+    tailwindClasses.push(`row-span-${styles.gridRowSpan}`);
   }
   
   if (styles.flexDirection) {
@@ -1372,6 +1515,10 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
     tailwindClasses.push(`self-${normalizedValue}`);
   }
   
+  if (styles.flex) {
+    tailwindClasses.push(`flex-${styles.flex}`);
+  }
+  
   if (styles.flexGrow) {
     const grow = parseInt(styles.flexGrow);
     if (grow === 1) {
@@ -1397,7 +1544,7 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
       const gapMatch = styles.gap.match(/(\d+)px/);
       if (gapMatch) {
         const gapValue = parseInt(gapMatch[1]);
-        tailwindClasses.push(`gap-${pxToTailwindSpacing(gapValue.toString())}`);
+        tailwindClasses.push(`gap-${toSpacing(gapValue.toString())}`);
       } else {
         tailwindClasses.push(`gap-[${styles.gap}]`);
       }
@@ -1417,26 +1564,269 @@ export function stylesToTailwind(styles: StyleProperties, tokens: DesignTokens):
         if (parsedPadding.top === parsedPadding.right && 
             parsedPadding.right === parsedPadding.bottom && 
             parsedPadding.bottom === parsedPadding.left) {
-          tailwindClasses.push(`p-${pxToTailwindSpacing(parsedPadding.top)}`);
+          tailwindClasses.push(`p-${toSpacing(parsedPadding.top)}`);
         } else {
           // Otherwise, use individual padding classes
-          tailwindClasses.push(`pt-${pxToTailwindSpacing(parsedPadding.top)}`);
-          tailwindClasses.push(`pr-${pxToTailwindSpacing(parsedPadding.right)}`);
-          tailwindClasses.push(`pb-${pxToTailwindSpacing(parsedPadding.bottom)}`);
-          tailwindClasses.push(`pl-${pxToTailwindSpacing(parsedPadding.left)}`);
+          tailwindClasses.push(`pt-${toSpacing(parsedPadding.top)}`);
+          tailwindClasses.push(`pr-${toSpacing(parsedPadding.right)}`);
+          tailwindClasses.push(`pb-${toSpacing(parsedPadding.bottom)}`);
+          tailwindClasses.push(`pl-${toSpacing(parsedPadding.left)}`);
         }
       }
     }
   }
   
   // Remove any duplicate or conflicting classes (like multiple bg-* classes)
-  const uniqueClasses = removeDuplicateAndConflictingClasses(tailwindClasses);
+  const typographyClasses = new Set(Object.keys(tokens.typography).map(name => `text-${styleNameToVariable(name)}`));
+  const uniqueClasses = removeDuplicateAndConflictingClasses(tailwindClasses, typographyClasses)
+    .map(cls => applyOutputOptions(cls, options));
+  
+  if (options.debug) {
+    console.log('stylesToTailwind:', styles, uniqueClasses);
+  }
   
   return uniqueClasses.join(' ');
 }
 
-// Helper function to remove duplicate and conflicting classes
-function removeDuplicateAndConflictingClasses(classes: string[]): string[] {
+// Helper function to format a CSS value for use inside an arbitrary class
+function toArbitraryValue(value: string): string {
+  return value.replace(/,\s+/g, ',').replace(/\s+/g, '_');
+}
+
+// Text cases with a Tailwind utility; small caps fall back to font-variant-caps
+const TEXT_CASE_CLASSES: Record<string, string> = {
+  uppercase: 'uppercase',
+  lowercase: 'lowercase',
+  capitalize: 'capitalize',
+  'normal-case': 'normal-case'
+};
+
+// Tailwind's blur scale, keyed by pixel value
+const BLUR_SCALE: Record<number, string> = {
+  0: 'none',
+  4: 'sm',
+  8: '',
+  12: 'md',
+  16: 'lg',
+  24: 'xl',
+  40: '2xl',
+  64: '3xl'
+};
+
+// Helper function to convert a blur length to a `blur-*` or `backdrop-blur-*` class
+function blurToTailwind(prefix: string, value: string, useScale: boolean): string {
+  const px = parseFloat(value);
+  const size = useScale ? BLUR_SCALE[px] : undefined;
+  if (size === undefined) {
+    return `${prefix}-[${px}px]`;
+  }
+  return size ? `${prefix}-${size}` : prefix;
+}
+
+// Widths with named border-*, ring-*, outline-* and outline-offset-* utilities
+const STROKE_WIDTHS = [0, 1, 2, 4, 8];
+
+/**
+ * Pick how a stroke is drawn. Borders take up room inside the box, like Figma strokes
+ * included in layout. Inside strokes that don't affect layout become inset rings, and
+ * outside or centered strokes outlines, since neither moves the content.
+ */
+function getStrokePrefix(styles: StyleProperties): 'border' | 'ring' | 'outline' {
+  if (styles.borderWidths) {
+    return 'border';
+  }
+  if (styles.strokeAlign === 'OUTSIDE' || styles.strokeAlign === 'CENTER') {
+    return 'outline';
+  }
+  if (styles.strokesIncludedInLayout === false) {
+    // Rings are box shadows, which can't be dashed
+    return styles.borderStyle === 'dashed' || styles.borderStyle === 'dotted' ? 'outline' : 'ring';
+  }
+  return 'border';
+}
+
+// Helper function to convert a stroke width to a class, e.g. "border", "border-t-2" or "ring-[3px]"
+function strokeWidthToTailwind(prefix: string, px: number, useScale: boolean): string {
+  if (px === 1 && prefix.startsWith('border')) {
+    return prefix;
+  }
+  return useScale && STROKE_WIDTHS.includes(px) ? `${prefix}-${px}` : `${prefix}-[${px}px]`;
+}
+
+// Values with named rotate-*, skew-* and scale-* utilities
+const ROTATE_SCALE = [0, 1, 2, 3, 6, 12, 45, 90, 180];
+const SKEW_SCALE = [0, 1, 2, 3, 6, 12];
+const SCALE_PERCENTS = [0, 50, 75, 90, 95, 100, 105, 110, 125, 150];
+
+// Helper function to convert a node transform to rotate, skew, scale and origin classes
+function transformToTailwind(transform: NodeTransform, origin: string | undefined, useScale: boolean): string[] {
+  const classes: string[] = [];
+  const angleClass = (prefix: string, degrees: number, scale: number[]) => {
+    const sign = degrees < 0 ? '-' : '';
+    return useScale && scale.includes(Math.abs(degrees)) ?
+      `${sign}${prefix}-${Math.abs(degrees)}` :
+      `${prefix}-[${degrees}deg]`;
+  };
+  const scaleClass = (prefix: string, scale: number) => {
+    const sign = scale < 0 ? '-' : '';
+    const percent = Math.round(Math.abs(scale) * 1000) / 10;
+    return percent === 100 || (useScale && SCALE_PERCENTS.includes(percent)) ?
+      `${sign}${prefix}-${percent}` :
+      `${sign}${prefix}-[${Math.abs(scale)}]`;
+  };
+
+  if (transform.rotate !== 0) classes.push(angleClass('rotate', transform.rotate, ROTATE_SCALE));
+  if (transform.skewX !== 0) classes.push(angleClass('skew-x', transform.skewX, SKEW_SCALE));
+  if (transform.scaleX !== 1) classes.push(scaleClass('scale-x', transform.scaleX));
+  if (transform.scaleY !== 1) classes.push(scaleClass('scale-y', transform.scaleY));
+  if (origin) classes.push(`origin-${origin.replace(' ', '-')}`);
+
+  return classes;
+}
+
+// Helper function to clip a fixed-size node to its smoothed corners; fluid sizes
+// keep the plain radius since a path clip does not scale with the element
+function cornerSmoothingToClipPath(styles: StyleProperties): string | null {
+  const width = parseFloat(styles.width || '');
+  const height = parseFloat(styles.height || '');
+  if (!styles.width?.endsWith('px') || !styles.height?.endsWith('px') || !width || !height) {
+    return null;
+  }
+
+  const corners = styles.topLeftRadius ?
+    [styles.topLeftRadius, styles.topRightRadius, styles.bottomRightRadius, styles.bottomLeftRadius] :
+    new Array(4).fill(styles.borderRadius);
+  const radii = corners.map(radius => parseFloat(radius || '0') || 0) as CornerRadii;
+  if (radii.every(radius => radius === 0)) {
+    return null;
+  }
+
+  const path = getSquirclePath(width, height, radii, styles.cornerSmoothing || 0);
+  return `[clip-path:path('${path.replace(/ /g, '_')}')]`;
+}
+
+// Gradient directions that have a named utility, keyed by CSS angle
+const GRADIENT_DIRECTIONS: Record<number, string> = {
+  0: 't',
+  45: 'tr',
+  90: 'r',
+  135: 'br',
+  180: 'b',
+  225: 'bl',
+  270: 'l',
+  315: 'tl'
+};
+
+// Gradients and images layer on top of a background color rather than replacing it
+const BACKGROUND_LAYER_CLASS_PATTERN = /^bg-(gradient-|linear-|\[(image:|linear-gradient|radial-gradient|conic-gradient))/;
+
+// Helper function to convert a gradient to Tailwind classes. Linear gradients with up to
+// three stops use the direction and from/via/to utilities, everything else an arbitrary value.
+function gradientToTailwind(
+  gradient: BackgroundGradient,
+  toColorValue: (color: string) => string,
+  options: CodegenOptions
+): string[] {
+  const arbitraryGradient = [`bg-[${toArbitraryValue(gradientToCss(gradient))}]`];
+  if (gradient.type !== 'linear' || gradient.stops.length < 2 || gradient.stops.length > 3) {
+    return arbitraryGradient;
+  }
+  
+  // v4 accepts any angle, v3 only the eight named directions
+  const direction = GRADIENT_DIRECTIONS[gradient.angle];
+  let directionClass: string;
+  if (options.tailwindVersion === 'v4') {
+    directionClass = direction ? `bg-linear-to-${direction}` : `bg-linear-${gradient.angle}`;
+  } else if (direction) {
+    directionClass = `bg-gradient-to-${direction}`;
+  } else {
+    return arbitraryGradient;
+  }
+  
+  const stopClasses = (prefix: string, stop: BackgroundGradient['stops'][number], defaultPosition: number) => {
+    const classes = [`${prefix}-${toColorValue(stop.color)}`];
+    if (stop.position !== defaultPosition) {
+      classes.push(Number.isInteger(stop.position) && stop.position % 5 === 0 ?
+        `${prefix}-${stop.position}%` :
+        `${prefix}-[${stop.position}%]`);
+    }
+    return classes;
+  };
+  
+  const first = gradient.stops[0];
+  const last = gradient.stops[gradient.stops.length - 1];
+  const middle = gradient.stops.length === 3 ? gradient.stops[1] : null;
+  
+  return [
+    directionClass,
+    ...stopClasses('from', first, 0),
+    ...(middle ? stopClasses('via', middle, 50) : []),
+    ...stopClasses('to', last, 100)
+  ];
+}
+
+// Helper function to convert stacked fills to one multi-layer background image,
+// with per-layer sizes and blend modes as arbitrary properties when needed
+function backgroundLayersToTailwind(layers: BackgroundLayer[]): string[] {
+  const classes = [`bg-[image:${toArbitraryValue(layers.map(backgroundLayerToCss).join(', '))}]`];
+  
+  if (layers.some(layer => layer.type === 'image')) {
+    classes.push(`[background-size:${layers.map(layer => layer.size || 'auto').join(',')}]`);
+  }
+  
+  const blendModes = layers.map(layer => layer.blendMode || 'normal');
+  if (blendModes.every(blendMode => blendMode === blendModes[0]) && blendModes[0] !== 'normal') {
+    classes.push(`bg-blend-${blendModes[0]}`);
+  } else if (blendModes.some(blendMode => blendMode !== 'normal')) {
+    classes.push(`[background-blend-mode:${blendModes.join(',')}]`);
+  }
+  
+  return classes;
+}
+
+// Utilities that were renamed in Tailwind v4
+const TAILWIND_V4_RENAMES: Record<string, string> = {
+  'rounded': 'rounded-sm',
+  'rounded-sm': 'rounded-xs',
+  'shadow': 'shadow-sm',
+  'shadow-sm': 'shadow-xs',
+  'blur': 'blur-sm',
+  'blur-sm': 'blur-xs',
+  'backdrop-blur': 'backdrop-blur-sm',
+  'backdrop-blur-sm': 'backdrop-blur-xs',
+  'outline-none': 'outline-hidden',
+  'ring': 'ring-3'
+};
+
+// Helper function to apply the Tailwind version and unit options to a class
+function applyOutputOptions(cls: string, options: CodegenOptions): string {
+  let result = cls;
+  
+  if (options.tailwindVersion === 'v4' && TAILWIND_V4_RENAMES[result]) {
+    result = TAILWIND_V4_RENAMES[result];
+  }
+  
+  // Only arbitrary values carry px lengths; they also can't contain spaces
+  if (result.includes('[')) {
+    result = convertLengths(result, options).replace(/,\s+/g, ',');
+  }
+  
+  return result;
+}
+
+// Sizing of a flex child, which doesn't conflict with the flex direction of its own children
+const FLEX_ITEM_CLASS_PATTERN = /^flex-(1|auto|initial|none)$/;
+
+// Border widths and styles, which don't conflict with the border color
+const BORDER_WIDTH_CLASS_PATTERN = /^border(-[trblxy])?(-\d+|-\[\d*\.?\d+px\])?$|^border-(solid|dashed|dotted|double|none)$/;
+
+// Font sizes and text alignment, which don't conflict with the text color
+const FONT_SIZE_CLASS_PATTERN = /^text-(xs|sm|base|lg|xl|[2-9]xl|\[\d*\.?\d+(px|rem|em)\])$/;
+const TEXT_ALIGN_CLASS_PATTERN = /^text-(left|center|right|justify|start|end)$/;
+
+// Helper function to remove duplicate and conflicting classes; typography token
+// classes (text-<style>) are font sizes
+function removeDuplicateAndConflictingClasses(classes: string[], typographyClasses: Set<string>): string[] {
   const result: string[] = [];
   const addedPrefixes = new Set<string>();
   
@@ -1462,7 +1852,15 @@ function removeDuplicateAndConflictingClasses(classes: string[]): string[] {
   // Then handle any remaining classes
   noDefaultBackgrounds.forEach(cls => {
     // Check if this class conflicts with any we've already added
-    const prefix = uniquePrefixes.find(p => cls.startsWith(p));
+    let prefix = BACKGROUND_LAYER_CLASS_PATTERN.test(cls) || FLEX_ITEM_CLASS_PATTERN.test(cls) ||
+        BORDER_WIDTH_CLASS_PATTERN.test(cls) ?
+      undefined :
+      uniquePrefixes.find(p => cls.startsWith(p));
+    if (FONT_SIZE_CLASS_PATTERN.test(cls) || typographyClasses.has(cls)) {
+      prefix = 'text-size';
+    } else if (TEXT_ALIGN_CLASS_PATTERN.test(cls)) {
+      prefix = 'text-align';
+    }
     
     if (prefix) {
       // This is a class that should be unique
@@ -1,45 +1,151 @@
-import { DesignTokens, TypographyValue, ShadowValue } from '../types/designTokenTypes';
+import {
+  DesignTokens,
+  TypographyValue,
+  TokenModes,
+  TokenReference
+} from '../types/designTokenTypes';
 import { styleNameToVariable } from '../utils/nameUtils';
+import { CodegenOptions } from '../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS, formatLength, convertLengths } from '../utils/codegenOptions';
+import { shadowsToCss } from '../utils/effectUtils';
 
-export function generateCssVariables(tokens: DesignTokens): string {
+// CSS variable prefixes for the token categories that can be aliased
+const REFERENCE_PREFIXES: Record<TokenReference['category'], string> = {
+  colors: '--color-',
+  spacing: '--spacing-',
+  borderRadius: '--radius-',
+  borderWidth: '--border-width-'
+};
+
+/**
+ * Get the CSS variable a token reference points to
+ * Example: { category: 'colors', name: 'Palette/Blue/500' } -> "--color-palette-blue-500"
+ */
+function getReferenceVariableName(reference: TokenReference): string {
+  return `${REFERENCE_PREFIXES[reference.category]}${styleNameToVariable(reference.name)}`;
+}
+
+/**
+ * Format a token value, emitting a var() for aliased tokens
+ */
+export function formatTokenValue(value: string | number, reference?: TokenReference): string {
+  return reference ? `var(${getReferenceVariableName(reference)})` : `${value}`;
+}
+
+export function generateCssVariables(
+  tokens: DesignTokens,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): string {
   let css = ':root {\n';
   
   // Process colors
   Object.entries(tokens.colors).forEach(([name, token]) => {
-    css += `  --color-${styleNameToVariable(name)}: ${token.value};\n`;
+    css += `  --color-${styleNameToVariable(name)}: ${formatTokenValue(token.value, token.reference)};\n`;
   });
   
   // Process typography
   Object.entries(tokens.typography).forEach(([name, token]) => {
     const value = token.value as TypographyValue;
     css += `  --typography-${styleNameToVariable(name)}-fontFamily: ${value.fontFamily};\n`;
-    css += `  --typography-${styleNameToVariable(name)}-fontSize: ${value.fontSize}px;\n`;
+    css += `  --typography-${styleNameToVariable(name)}-fontSize: ${formatLength(value.fontSize, options)};\n`;
     css += `  --typography-${styleNameToVariable(name)}-fontWeight: ${value.fontWeight};\n`;
     css += `  --typography-${styleNameToVariable(name)}-lineHeight: ${value.lineHeight};\n`;
-    css += `  --typography-${styleNameToVariable(name)}-letterSpacing: ${value.letterSpacing}px;\n`;
+    css += `  --typography-${styleNameToVariable(name)}-letterSpacing: ${formatLength(value.letterSpacing, options)};\n`;
   });
   
   // Process spacing
   Object.entries(tokens.spacing).forEach(([name, token]) => {
-    css += `  --spacing-${styleNameToVariable(name)}: ${token.value}px;\n`;
+    css += `  --spacing-${styleNameToVariable(name)}: ${formatTokenValue(formatLength(token.value, options), token.reference)};\n`;
   });
   
   // Process effects
   Object.entries(tokens.effects).forEach(([name, token]) => {
-    const value = token.value as ShadowValue;
-    css += `  --effect-${styleNameToVariable(name)}: ${value.x}px ${value.y}px ${value.blur}px ${value.spread}px ${value.color};\n`;
+    const variable = `--effect-${styleNameToVariable(name)}`;
+    if (token.value.shadows.length > 0) {
+      css += `  ${variable}: ${convertLengths(shadowsToCss(token.value.shadows), options)};\n`;
+    }
+    if (token.value.layerBlur !== undefined) {
+      css += `  ${variable}-blur: ${formatLength(token.value.layerBlur, options)};\n`;
+    }
+    if (token.value.backgroundBlur !== undefined) {
+      css += `  ${variable}-backdrop-blur: ${formatLength(token.value.backgroundBlur, options)};\n`;
+    }
   });
   
   // Process border radius
   Object.entries(tokens.borderRadius).forEach(([name, token]) => {
-    css += `  --radius-${styleNameToVariable(name)}: ${token.value}px;\n`;
+    css += `  --radius-${styleNameToVariable(name)}: ${formatTokenValue(formatLength(token.value, options), token.reference)};\n`;
   });
   
   // Process border width
   Object.entries(tokens.borderWidth).forEach(([name, token]) => {
-    css += `  --border-width-${styleNameToVariable(name)}: ${token.value}px;\n`;
+    css += `  --border-width-${styleNameToVariable(name)}: ${formatTokenValue(formatLength(token.value, options), token.reference)};\n`;
   });
   
   css += '}\n';
+
+  // Add one override block per non-default variable mode
+  css += generateModeOverrides(tokens, options);
+
+  return css;
+}
+
+/**
+ * Generates override blocks for every variable mode (e.g. dark or brand themes).
+ * Only variable-backed tokens carry modes, so typography and effects are never included.
+ */
+export function generateModeOverrides(
+  tokens: DesignTokens,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): string {
+  const declarationsByMode: Record<string, string[]> = {};
+
+  const addModeDeclarations = (
+    variableName: string,
+    modes: TokenModes<string | number> | undefined,
+    isLength: boolean = false
+  ) => {
+    if (!modes) return;
+    Object.entries(modes).forEach(([mode, modeValue]) => {
+      if (!declarationsByMode[mode]) {
+        declarationsByMode[mode] = [];
+      }
+      const modeValueText = isLength ? formatLength(Number(modeValue.value), options) : modeValue.value;
+      const value = formatTokenValue(modeValueText, modeValue.reference);
+      declarationsByMode[mode].push(`  ${variableName}: ${value};\n`);
+    });
+  };
+
+  Object.entries(tokens.colors).forEach(([name, token]) => {
+    addModeDeclarations(`--color-${styleNameToVariable(name)}`, token.modes);
+  });
+
+  Object.entries(tokens.spacing).forEach(([name, token]) => {
+    addModeDeclarations(`--spacing-${styleNameToVariable(name)}`, token.modes, true);
+  });
+
+  Object.entries(tokens.borderRadius).forEach(([name, token]) => {
+    addModeDeclarations(`--radius-${styleNameToVariable(name)}`, token.modes, true);
+  });
+
+  Object.entries(tokens.borderWidth).forEach(([name, token]) => {
+    addModeDeclarations(`--border-width-${styleNameToVariable(name)}`, token.modes, true);
+  });
+
+  let css = '';
+  Object.entries(declarationsByMode).forEach(([mode, declarations]) => {
+    css += `\n${getModeSelector(mode)} {\n${declarations.join('')}}\n`;
+  });
+
   return css;
+}
+
+/**
+ * Selector for a mode's override block. A mode named "Dark" also matches the
+ * `dark` class so it works with Tailwind's class-based dark mode.
+ */
+function getModeSelector(mode: string): string {
+  const modeName = styleNameToVariable(mode);
+  const attributeSelector = `[data-theme="${modeName}"]`;
+  return modeName === 'dark' ? `.dark, ${attributeSelector}` : attributeSelector;
 } 
\ No newline at end of file
@@ -0,0 +1,250 @@
+import {
+  DesignTokens,
+  TypographyValue,
+  ShadowValue,
+  TokenModes,
+  TokenReference
+} from '../types/designTokenTypes';
+import { cssColorToHex } from '../utils/colorUtils';
+import { fontStyleToWeight } from '../utils/styleUtils';
+import { CodegenOptions } from '../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS, formatLength } from '../utils/codegenOptions';
+
+/**
+ * A single token in the W3C Design Tokens Community Group format
+ */
+interface DtcgToken {
+  $value: unknown;
+  $type: string;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+}
+
+interface DtcgGroup {
+  [key: string]: DtcgGroup | DtcgToken;
+}
+
+// Top-level group each token category is written to
+const CATEGORY_GROUPS: Record<keyof DesignTokens, string> = {
+  colors: 'color',
+  typography: 'typography',
+  spacing: 'spacing',
+  effects: 'shadow',
+  borderRadius: 'borderRadius',
+  borderWidth: 'borderWidth'
+};
+
+// Name of a token whose path is also a group, e.g. "color/brand" next to "color/brand/hover"
+const GROUP_TOKEN_NAME = 'DEFAULT';
+
+/**
+ * Serializes design tokens to W3C Design Tokens Community Group (DTCG) JSON.
+ * Style names are split on "/" into nested groups, aliases become `{group.token}`
+ * references and non-default variable modes are kept under `$extensions`.
+ */
+export function generateDtcgTokens(
+  tokens: DesignTokens,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): string {
+  const root: DtcgGroup = {};
+
+  // Process colors
+  Object.entries(tokens.colors).forEach(([name, token]) => {
+    addToken(root, CATEGORY_GROUPS.colors, name, {
+      $value: token.reference ? toDtcgAlias(token.reference) : toDtcgColor(token.value),
+      $type: 'color',
+      $description: token.description,
+      $extensions: toModeExtensions(token.modes, value => toDtcgColor(value))
+    });
+  });
+
+  // Process typography
+  Object.entries(tokens.typography).forEach(([name, token]) => {
+    addToken(root, CATEGORY_GROUPS.typography, name, {
+      $value: toDtcgTypography(token.value, options),
+      $type: 'typography',
+      $description: token.description
+    });
+  });
+
+  // Process spacing, border radius and border width
+  (['spacing', 'borderRadius', 'borderWidth'] as const).forEach(category => {
+    Object.entries(tokens[category]).forEach(([name, token]) => {
+      addToken(root, CATEGORY_GROUPS[category], name, {
+        $value: token.reference ? toDtcgAlias(token.reference) : formatLength(token.value, options),
+        $type: 'dimension',
+        $description: token.description,
+        $extensions: toModeExtensions<number>(token.modes, value => formatLength(value, options))
+      });
+    });
+  });
+
+  // Process effects
+  Object.entries(tokens.effects).forEach(([name, token]) => {
+    const { shadows, layerBlur, backgroundBlur } = token.value;
+
+    // DTCG has no blur type, so blurs are kept under $extensions
+    const blurs: Record<string, string> = {};
+    if (layerBlur !== undefined) blurs.layerBlur = formatLength(layerBlur, options);
+    if (backgroundBlur !== undefined) blurs.backgroundBlur = formatLength(backgroundBlur, options);
+    const extensions = Object.keys(blurs).length > 0 ? { 'com.figma': blurs } : undefined;
+
+    if (shadows.length > 0) {
+      addToken(root, CATEGORY_GROUPS.effects, name, {
+        $value: shadows.length === 1 ?
+          toDtcgShadow(shadows[0], options) :
+          shadows.map(shadow => toDtcgShadow(shadow, options)),
+        $type: 'shadow',
+        $description: token.description,
+        $extensions: extensions
+      });
+    } else {
+      // Blur-only styles become plain dimensions
+      addToken(root, 'blur', name, {
+        $value: formatLength((layerBlur ?? backgroundBlur)!, options),
+        $type: 'dimension',
+        $description: token.description,
+        $extensions: extensions
+      });
+    }
+  });
+
+  return JSON.stringify(resolveGroupAliases(root, root), null, 2);
+}
+
+/**
+ * Add a token to a top-level group, nesting it by the "/" segments of its name.
+ * A token whose path is also a group, such as "brand" next to "brand/hover",
+ * moves into that group as its DEFAULT token.
+ */
+function addToken(root: DtcgGroup, groupName: string, name: string, token: DtcgToken): void {
+  const path = [groupName, ...toDtcgPath(name)];
+  let group = root;
+
+  path.slice(0, -1).forEach(segment => {
+    const existing = group[segment];
+    if (!existing) {
+      group[segment] = {};
+    } else if (isDtcgToken(existing)) {
+      group[segment] = { [GROUP_TOKEN_NAME]: existing };
+    }
+    group = group[segment] as DtcgGroup;
+  });
+
+  // Drop optional fields that are empty so the output stays minimal
+  const cleanToken: DtcgToken = { $value: token.$value, $type: token.$type };
+  if (token.$description) cleanToken.$description = token.$description;
+  if (token.$extensions) cleanToken.$extensions = token.$extensions;
+
+  const tokenName = path[path.length - 1];
+  const existing = group[tokenName];
+  if (existing && !isDtcgToken(existing)) {
+    existing[GROUP_TOKEN_NAME] = cleanToken;
+  } else {
+    group[tokenName] = cleanToken;
+  }
+}
+
+function isDtcgToken(entry: DtcgGroup | DtcgToken): entry is DtcgToken {
+  return '$value' in entry;
+}
+
+/**
+ * Point aliases of tokens that moved into a group at the group's DEFAULT token
+ * Example: "{color.brand}" -> "{color.brand.DEFAULT}"
+ */
+function resolveGroupAliases<T>(value: T, root: DtcgGroup): T {
+  if (typeof value === 'string') {
+    return value.replace(/^\{(.+)\}$/, (alias, path: string) => {
+      const target = path.split('.').reduce<DtcgGroup | DtcgToken | undefined>(
+        (entry, segment) => entry && !isDtcgToken(entry) ? entry[segment] : undefined,
+        root
+      );
+      return target && !isDtcgToken(target) && target[GROUP_TOKEN_NAME] ? `{${path}.${GROUP_TOKEN_NAME}}` : alias;
+    }) as T;
+  }
+  if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, entry]) => {
+      (value as Record<string, unknown>)[key] = resolveGroupAliases(entry, root);
+    });
+  }
+  return value;
+}
+
+/**
+ * Split a style name into DTCG-safe group/token names.
+ * Names may not contain ".", "{" or "}" or start with "$".
+ */
+function toDtcgPath(name: string): string[] {
+  return name
+    .split('/')
+    .map(segment => segment.trim().replace(/[.{}]/g, '-').replace(/^\$+/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Convert a token reference to a DTCG alias, e.g. "{color.palette.blue.500}"
+ */
+function toDtcgAlias(reference: TokenReference): string {
+  return `{${[CATEGORY_GROUPS[reference.category], ...toDtcgPath(reference.name)].join('.')}}`;
+}
+
+function toDtcgColor(value: string): string {
+  return cssColorToHex(value) || value;
+}
+
+/**
+ * Keep non-default mode values so theme-aware tools can rebuild them
+ */
+function toModeExtensions<T>(
+  modes: TokenModes<T> | undefined,
+  formatValue: (value: T) => string
+): Record<string, unknown> | undefined {
+  if (!modes) return undefined;
+
+  const modeValues: Record<string, string> = {};
+  Object.entries(modes).forEach(([mode, modeValue]) => {
+    modeValues[mode] = modeValue.reference ?
+      toDtcgAlias(modeValue.reference) :
+      formatValue(modeValue.value);
+  });
+
+  return { 'com.figma': { modes: modeValues } };
+}
+
+function toDtcgTypography(value: TypographyValue, options: CodegenOptions): Record<string, unknown> {
+  return {
+    fontFamily: value.fontFamily,
+    fontSize: formatLength(value.fontSize, options),
+    fontWeight: fontStyleToWeight(value.fontWeight) ?? value.fontWeight,
+    lineHeight: toDtcgLineHeight(value.lineHeight, value.fontSize),
+    letterSpacing: formatLength(value.letterSpacing, options)
+  };
+}
+
+/**
+ * DTCG line heights are unitless multipliers of the font size
+ */
+function toDtcgLineHeight(lineHeight: string | number, fontSize: number): number {
+  if (typeof lineHeight === 'number') {
+    return fontSize ? Math.round((lineHeight / fontSize) * 1000) / 1000 : 1;
+  }
+
+  if (lineHeight.endsWith('%')) {
+    return parseFloat(lineHeight) / 100;
+  }
+
+  // "auto" has no exact equivalent; 1.2 is roughly what browsers use for `normal`
+  return 1.2;
+}
+
+function toDtcgShadow(value: ShadowValue, options: CodegenOptions): Record<string, string | boolean> {
+  return {
+    color: toDtcgColor(value.color),
+    offsetX: formatLength(value.x, options),
+    offsetY: formatLength(value.y, options),
+    blur: formatLength(value.blur, options),
+    spread: formatLength(value.spread, options),
+    ...(value.inset ? { inset: true } : {})
+  };
+}
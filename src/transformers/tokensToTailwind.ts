@@ -1,8 +1,11 @@
 import { DesignTokens } from '../types/designTokenTypes';
 import { styleNameToVariable } from '../utils/nameUtils';
+import { CodegenOptions } from '../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS, isDefaultBreakpoints } from '../utils/codegenOptions';
 
 interface TailwindConfig {
   theme: {
+    screens?: Record<string, string>;
     extend: {
       colors: Record<string, string>;
       fontFamily: Record<string, string>;
@@ -10,6 +13,8 @@ interface TailwindConfig {
       lineHeight: Record<string, string | number>;
       letterSpacing: Record<string, string>;
       boxShadow: Record<string, string>;
+      blur: Record<string, string>;
+      backdropBlur: Record<string, string>;
       borderRadius: Record<string, string>;
       borderWidth: Record<string, string>;
       spacing: Record<string, string>;
@@ -17,7 +22,10 @@ interface TailwindConfig {
   };
 }
 
-export function generateTailwindConfig(tokens: DesignTokens): string {
+export function generateTailwindConfig(
+  tokens: DesignTokens,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): string {
   const config: TailwindConfig = {
     theme: {
       extend: {
@@ -27,6 +35,8 @@ export function generateTailwindConfig(tokens: DesignTokens): string {
         lineHeight: {},
         letterSpacing: {},
         boxShadow: {},
+        blur: {},
+        backdropBlur: {},
         borderRadius: {},
         borderWidth: {},
         spacing: {}
@@ -34,6 +44,15 @@ export function generateTailwindConfig(tokens: DesignTokens): string {
     }
   };
 
+  // Responsive prefixes are generated for the configured breakpoints, so they
+  // replace Tailwind's default screens
+  if (!isDefaultBreakpoints(options.breakpoints)) {
+    config.theme.screens = {};
+    Object.entries(options.breakpoints).forEach(([name, width]) => {
+      config.theme.screens![name] = `${width}px`;
+    });
+  }
+
   // Map tokens to Tailwind theme
   for (const [name] of Object.entries(tokens.colors)) {
     config.theme.extend.colors[styleNameToVariable(name)] = `var(--color-${styleNameToVariable(name)})`;
@@ -55,8 +74,17 @@ export function generateTailwindConfig(tokens: DesignTokens): string {
   }
 
   // Map effect tokens
-  for (const [name] of Object.entries(tokens.effects)) {
-    config.theme.extend.boxShadow[styleNameToVariable(name)] = `var(--effect-${styleNameToVariable(name)})`;
+  for (const [name, token] of Object.entries(tokens.effects)) {
+    const tokenName = styleNameToVariable(name);
+    if (token.value.shadows.length > 0) {
+      config.theme.extend.boxShadow[tokenName] = `var(--effect-${tokenName})`;
+    }
+    if (token.value.layerBlur !== undefined) {
+      config.theme.extend.blur[tokenName] = `var(--effect-${tokenName}-blur)`;
+    }
+    if (token.value.backgroundBlur !== undefined) {
+      config.theme.extend.backdropBlur[tokenName] = `var(--effect-${tokenName}-backdrop-blur)`;
+    }
   }
 
   // Map border radius tokens
@@ -0,0 +1,105 @@
+import { DesignTokens, TypographyValue } from '../types/designTokenTypes';
+import { styleNameToVariable } from '../utils/nameUtils';
+import { fontStyleToWeight } from '../utils/styleUtils';
+import { CodegenOptions } from '../types/codegenTypes';
+import { DEFAULT_CODEGEN_OPTIONS, formatLength, convertLengths, isDefaultBreakpoints } from '../utils/codegenOptions';
+import { formatTokenValue, generateModeOverrides } from './tokensToCSS';
+import { getBackdropBlurTokenName, shadowsToCss } from '../utils/effectUtils';
+
+/**
+ * Generates a Tailwind CSS v4 stylesheet that declares every token in `@theme`.
+ * Variables follow the v4 namespaces (--color-*, --font-*, --text-*, --spacing-*, ...)
+ * so the class names used in generated components (bg-primary, rounded-md, ...) resolve.
+ */
+export function generateTailwindTheme(
+  tokens: DesignTokens,
+  options: CodegenOptions = DEFAULT_CODEGEN_OPTIONS
+): string {
+  let css = '@import "tailwindcss";\n\n@theme {\n';
+
+  // Responsive prefixes are generated for the configured breakpoints, so they
+  // replace Tailwind's default ones
+  if (!isDefaultBreakpoints(options.breakpoints)) {
+    css += '  --breakpoint-*: initial;\n';
+    Object.entries(options.breakpoints).forEach(([name, width]) => {
+      css += `  --breakpoint-${name}: ${width}px;\n`;
+    });
+  }
+
+  // Map color tokens
+  Object.entries(tokens.colors).forEach(([name, token]) => {
+    css += `  --color-${styleNameToVariable(name)}: ${formatTokenValue(token.value, token.reference)};\n`;
+  });
+
+  // Map typography tokens, using the --text-* sub-properties for the defaults of text-<name>
+  Object.entries(tokens.typography).forEach(([name, token]) => {
+    const baseName = styleNameToVariable(name);
+    const value = token.value as TypographyValue;
+    const fontWeight = fontStyleToWeight(value.fontWeight);
+    const lineHeight = formatLineHeight(value.lineHeight, options);
+
+    css += `  --font-${baseName}: "${value.fontFamily}";\n`;
+    css += `  --text-${baseName}: ${formatLength(value.fontSize, options)};\n`;
+    css += `  --text-${baseName}--line-height: ${lineHeight};\n`;
+    css += `  --text-${baseName}--letter-spacing: ${formatLength(value.letterSpacing, options)};\n`;
+    if (fontWeight) {
+      css += `  --text-${baseName}--font-weight: ${fontWeight};\n`;
+    }
+    css += `  --leading-${baseName}: ${lineHeight};\n`;
+    css += `  --tracking-${baseName}: ${formatLength(value.letterSpacing, options)};\n`;
+  });
+
+  // Map spacing tokens
+  Object.entries(tokens.spacing).forEach(([name, token]) => {
+    css += `  --spacing-${styleNameToVariable(name)}: ${formatTokenValue(formatLength(token.value, options), token.reference)};\n`;
+  });
+
+  // Map effect tokens
+  Object.entries(tokens.effects).forEach(([name, token]) => {
+    const tokenName = styleNameToVariable(name);
+    if (token.value.shadows.length > 0) {
+      css += `  --shadow-${tokenName}: ${convertLengths(shadowsToCss(token.value.shadows), options)};\n`;
+    }
+
+    if (token.value.layerBlur !== undefined) {
+      css += `  --blur-${tokenName}: ${formatLength(token.value.layerBlur, options)};\n`;
+    }
+    if (token.value.backgroundBlur !== undefined) {
+      const backdropName = getBackdropBlurTokenName(tokenName, token.value);
+      css += `  --blur-${backdropName}: ${formatLength(token.value.backgroundBlur, options)};\n`;
+    }
+  });
+
+  // Map border radius tokens
+  Object.entries(tokens.borderRadius).forEach(([name, token]) => {
+    css += `  --radius-${styleNameToVariable(name)}: ${formatTokenValue(formatLength(token.value, options), token.reference)};\n`;
+  });
+
+  // v4 has no border width namespace, so the variables live in @theme and
+  // border-<name> utilities are registered below
+  Object.entries(tokens.borderWidth).forEach(([name, token]) => {
+    css += `  --border-width-${styleNameToVariable(name)}: ${formatTokenValue(formatLength(token.value, options), token.reference)};\n`;
+  });
+
+  css += '}\n';
+
+  Object.keys(tokens.borderWidth).forEach(name => {
+    const tokenName = styleNameToVariable(name);
+    css += `\n@utility border-${tokenName} {\n  border-width: var(--border-width-${tokenName});\n}\n`;
+  });
+
+  // Add one override block per non-default variable mode
+  css += generateModeOverrides(tokens, options);
+
+  return css;
+}
+
+/**
+ * Line heights are stored as px numbers, percentages or "auto"
+ */
+function formatLineHeight(lineHeight: string | number, options: CodegenOptions): string {
+  if (typeof lineHeight === 'number') {
+    return formatLength(lineHeight, options);
+  }
+  return lineHeight === 'auto' ? 'normal' : lineHeight;
+}
@@ -0,0 +1,52 @@
+export type TailwindVersion = 'v3' | 'v4';
+
+export type ComponentLanguage = 'typescript' | 'javascript';
+
+/**
+ * How styles are turned into class names:
+ * - tokens: design tokens first, then the closest Tailwind scale value
+ * - arbitrary: exact arbitrary values such as `p-[13px]` or `bg-[rgb(...)]`
+ */
+export type ClassNameStrategy = 'tokens' | 'arbitrary';
+
+export type LengthUnit = 'px' | 'rem';
+
+/**
+ * Minimum viewport width in pixels of each responsive prefix, like Tailwind's `screens`
+ * Example: { md: 768, lg: 1024 }
+ */
+export type Breakpoints = Record<string, number>;
+
+/**
+ * How corners smoothed in Figma are drawn:
+ * - rounded: plain `rounded-*` with the circular radius, which approximates the curve
+ * - clip-path: an exact SVG path clip for fixed-size layers
+ */
+export type CornerSmoothingMode = 'rounded' | 'clip-path';
+
+/**
+ * How component set variants are emitted:
+ * - cva: one class-variance-authority definition per styled element
+ * - slots: a single tailwind-variants definition with a slot per styled element
+ */
+export type VariantOutput = 'cva' | 'slots';
+
+export interface CodegenOptions {
+  tailwindVersion: TailwindVersion;
+  language: ComponentLanguage;
+  classNameStrategy: ClassNameStrategy;
+  unit: LengthUnit;
+  // Pixels per rem when unit is 'rem'
+  remBase: number;
+  // Only emit background classes for fills that were explicitly set
+  skipImplicitBackgrounds: boolean;
+  // Screens used to prefix classes when several breakpoint frames are combined
+  breakpoints: Breakpoints;
+  cornerSmoothing: CornerSmoothingMode;
+  // Variant property whose Hover, Focus, Pressed and Disabled values become
+  // pseudo-class modifiers instead of variants
+  stateProperty: string;
+  variantOutput: VariantOutput;
+  // Log intermediate styles and classes to the console
+  debug: boolean;
+}
@@ -8,10 +8,32 @@ export type DesignToken = {
   description?: string;
 };
 
+/**
+ * Points at the token a variable aliases (e.g. "color/bg/primary" -> "palette/blue/500"),
+ * so generated code can keep the reference instead of the flattened value
+ */
+export interface TokenReference {
+  category: 'colors' | 'spacing' | 'borderRadius' | 'borderWidth';
+  name: string;
+}
+
+export interface TokenModeValue<T> {
+  value: T;
+  reference?: TokenReference;
+}
+
+/**
+ * Values a variable-backed token takes in the non-default modes of its collection,
+ * keyed by mode name (e.g. "Dark" or "Brand B")
+ */
+export type TokenModes<T> = Record<string, TokenModeValue<T>>;
+
 export interface ColorToken {
   value: string;
   type: 'color';
   description?: string;
+  reference?: TokenReference;
+  modes?: TokenModes<string>;
 }
 
 export interface TypographyValue {
@@ -25,6 +47,7 @@ export interface TypographyValue {
 export interface TypographyToken {
   value: TypographyValue;
   type: 'typography';
+  description?: string;
 }
 
 export interface ShadowValue {
@@ -33,26 +56,45 @@ export interface ShadowValue {
   blur: number;
   spread: number;
   color: string;
+  inset?: boolean;
+}
+
+export interface EffectValue {
+  // Drop and inner shadows, top first
+  shadows: ShadowValue[];
+  // Blur radii in px, as CSS blur() takes them
+  layerBlur?: number;
+  backgroundBlur?: number;
 }
 
 export interface EffectToken {
-  value: ShadowValue;
-  type: 'shadow';
+  value: EffectValue;
+  type: 'effect';
+  description?: string;
 }
 
 export interface SpacingToken {
   value: number;
   type: 'spacing';
+  description?: string;
+  reference?: TokenReference;
+  modes?: TokenModes<number>;
 }
 
 export interface BorderRadiusToken {
   value: number;
   type: 'borderRadius';
+  description?: string;
+  reference?: TokenReference;
+  modes?: TokenModes<number>;
 }
 
 export interface BorderWidthToken {
   value: number;
   type: 'borderWidth';
+  description?: string;
+  reference?: TokenReference;
+  modes?: TokenModes<number>;
 }
 
 export interface DesignTokens {
@@ -6,6 +6,53 @@ export interface StyleReferences {
   grid?: string;
 }
 
+export interface GradientColorStop {
+  color: string;
+  // Percentage along the gradient line (or radius / sweep)
+  position: number;
+}
+
+export interface BackgroundGradient {
+  type: 'linear' | 'radial' | 'conic';
+  // Direction of a linear gradient or start of a conic one, in CSS degrees
+  angle: number;
+  // Percentages of the node's width and height
+  center: { x: number; y: number };
+  radius: { x: number; y: number };
+  stops: GradientColorStop[];
+}
+
+export interface BackgroundLayer {
+  type: 'color' | 'gradient' | 'image';
+  color?: string;
+  gradient?: BackgroundGradient;
+  imageHash?: string;
+  // CSS background-size of image layers
+  size?: string;
+  // CSS blend mode; absent for normal blending
+  blendMode?: string;
+}
+
+/**
+ * CSS transforms of a node, applied in this order
+ */
+export interface NodeTransform {
+  // Clockwise degrees
+  rotate: number;
+  skewX: number;
+  // Negative on an axis the node is mirrored on
+  scaleX: number;
+  scaleY: number;
+}
+
+export interface TextSegment {
+  characters: string;
+  element: 'span' | 'strong' | 'a';
+  href?: string;
+  // Only the styles that differ from the text node itself
+  styles: StyleProperties;
+}
+
 export interface StyleProperties {
   // Layout properties
   width?: string;
@@ -30,9 +77,18 @@ export interface StyleProperties {
   alignContent?: string;
   alignSelf?: string;
   flexGrow?: string;
+  flex?: string;
   gap?: string;
   overflow?: string;
   
+  // Grid layout
+  gridColumns?: number;
+  gridRows?: number;
+  columnGap?: string;
+  rowGap?: string;
+  gridColumnSpan?: number;
+  gridRowSpan?: number;
+  
   // Spacing
   padding?: string;
   paddingTop?: string;
@@ -50,6 +106,7 @@ export interface StyleProperties {
   fontSize?: string;
   fontFamily?: string;
   fontStyle?: string;
+  italic?: boolean;
   fontWeight?: string;
   lineHeight?: string;
   letterSpacing?: string;
@@ -58,12 +115,17 @@ export interface StyleProperties {
   textDecoration?: string;
   paragraphIndent?: string;
   paragraphSpacing?: string;
+  textTruncation?: 'ending';
+  maxLines?: number;
   listSpacing?: string;
   leadingTrim?: string;
   hangingList?: boolean;
   hangingPunctuation?: boolean;
   openTypeFeatures?: Record<string, boolean>;
   
+  // Runs of a mixed-style text node, in reading order
+  textSegments?: TextSegment[];
+  
   // Visual properties
   backgroundColor?: string;
   borderRadius?: string;
@@ -76,8 +138,21 @@ export interface StyleProperties {
   borderStyle?: string;
   strokeWeight?: string;
   strokeAlign?: string;
+  // Per-side stroke weights in px, when they differ
+  borderWidths?: { top: number; right: number; bottom: number; left: number };
   opacity?: string;
   boxShadow?: string;
+  blur?: string;
+  backdropBlur?: string;
+  transform?: NodeTransform;
+  // CSS transform-origin; absent for the center
+  transformOrigin?: string;
+  
+  // Background gradient properties
+  backgroundGradient?: BackgroundGradient;
+  
+  // Fills stacked above the background color, top layer first
+  backgroundLayers?: BackgroundLayer[];
   
   // Background image properties
   backgroundImage?: boolean;
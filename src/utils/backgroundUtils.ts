@@ -0,0 +1,45 @@
+import { BackgroundLayer } from '../types/styleTypes';
+import { gradientToCss } from './gradientUtils';
+
+// Figma blend modes mapped to CSS; the linear modes have no CSS counterpart
+const CSS_BLEND_MODES: Record<string, string> = {
+  DARKEN: 'darken',
+  MULTIPLY: 'multiply',
+  LINEAR_BURN: 'multiply',
+  COLOR_BURN: 'color-burn',
+  LIGHTEN: 'lighten',
+  SCREEN: 'screen',
+  LINEAR_DODGE: 'screen',
+  COLOR_DODGE: 'color-dodge',
+  OVERLAY: 'overlay',
+  SOFT_LIGHT: 'soft-light',
+  HARD_LIGHT: 'hard-light',
+  DIFFERENCE: 'difference',
+  EXCLUSION: 'exclusion',
+  HUE: 'hue',
+  SATURATION: 'saturation',
+  COLOR: 'color',
+  LUMINOSITY: 'luminosity'
+};
+
+/**
+ * Convert a Figma blend mode to its CSS name, or undefined for normal blending
+ */
+export function toCssBlendMode(blendMode?: string): string | undefined {
+  return blendMode ? CSS_BLEND_MODES[blendMode] : undefined;
+}
+
+/**
+ * Format one background layer as a CSS `background-image` value. Solid colors become
+ * single-color gradients since only the bottom layer can be a plain color.
+ */
+export function backgroundLayerToCss(layer: BackgroundLayer): string {
+  switch (layer.type) {
+    case 'color':
+      return `linear-gradient(${layer.color}, ${layer.color})`;
+    case 'gradient':
+      return gradientToCss(layer.gradient!);
+    case 'image':
+      return `var(--img-${layer.imageHash})`;
+  }
+}
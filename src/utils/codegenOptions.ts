@@ -0,0 +1,114 @@
+import { Breakpoints, CodegenOptions } from '../types/codegenTypes';
+
+// Tailwind's default `screens`
+export const TAILWIND_BREAKPOINTS: Breakpoints = {
+  sm: 640,
+  md: 768,
+  lg: 1024,
+  xl: 1280,
+  '2xl': 1536
+};
+
+// Common design frame widths: 375 mobile, 768 tablet and 1440 desktop
+const DESIGN_FRAME_BREAKPOINTS: Breakpoints = {
+  md: 768,
+  lg: 1440
+};
+
+/**
+ * Check if breakpoints are Tailwind's default `screens`, which need no config
+ */
+export function isDefaultBreakpoints(breakpoints: Breakpoints): boolean {
+  const names = Object.keys(breakpoints);
+  return names.length === Object.keys(TAILWIND_BREAKPOINTS).length &&
+    names.every(name => breakpoints[name] === TAILWIND_BREAKPOINTS[name]);
+}
+
+export const DEFAULT_CODEGEN_OPTIONS: CodegenOptions = {
+  tailwindVersion: 'v3',
+  language: 'typescript',
+  classNameStrategy: 'tokens',
+  unit: 'px',
+  remBase: 16,
+  skipImplicitBackgrounds: true,
+  breakpoints: TAILWIND_BREAKPOINTS,
+  cornerSmoothing: 'rounded',
+  stateProperty: 'State',
+  variantOutput: 'cva',
+  debug: false
+};
+
+/**
+ * Build codegen options from the preferences chosen in Dev Mode.
+ * Unknown or missing settings fall back to the defaults.
+ */
+export function getCodegenOptions(preferences: CodegenPreferences): CodegenOptions {
+  const settings = preferences.customSettings || {};
+
+  return {
+    tailwindVersion: settings.tailwindVersion === 'v4' ? 'v4' : 'v3',
+    language: settings.language === 'javascript' ? 'javascript' : 'typescript',
+    classNameStrategy: settings.classNameStrategy === 'arbitrary' ? 'arbitrary' : 'tokens',
+    unit: preferences.unit === 'scaled' ? 'rem' : 'px',
+    remBase: preferences.scaleFactor || DEFAULT_CODEGEN_OPTIONS.remBase,
+    skipImplicitBackgrounds: DEFAULT_CODEGEN_OPTIONS.skipImplicitBackgrounds,
+    breakpoints: settings.breakpoints === 'frames' ? DESIGN_FRAME_BREAKPOINTS : TAILWIND_BREAKPOINTS,
+    cornerSmoothing: settings.cornerSmoothing === 'clip-path' ? 'clip-path' : 'rounded',
+    stateProperty: settings.stateProperty || DEFAULT_CODEGEN_OPTIONS.stateProperty,
+    variantOutput: settings.variantOutput === 'slots' ? 'slots' : 'cva',
+    debug: DEFAULT_CODEGEN_OPTIONS.debug
+  };
+}
+
+/**
+ * Read breakpoints from a Tailwind `screens` config. Plain widths and `{ min }`
+ * objects are supported; rem and em values use 16px. Screens without a usable
+ * minimum width (e.g. `{ max: '639px' }` or raw media queries) are skipped.
+ * Example: { md: '768px', lg: { min: '64rem' } } -> { md: 768, lg: 1024 }
+ */
+export function parseScreens(screens: Record<string, unknown>): Breakpoints {
+  const breakpoints: Breakpoints = {};
+
+  Object.entries(screens).forEach(([name, screen]) => {
+    const min = typeof screen === 'object' && screen !== null ?
+      (screen as { min?: unknown }).min :
+      screen;
+    const width = parseScreenWidth(min);
+    if (width !== undefined) {
+      breakpoints[name] = width;
+    }
+  });
+
+  return breakpoints;
+}
+
+function parseScreenWidth(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return undefined;
+
+  const match = value.trim().match(/^(\d*\.?\d+)(px|r?em)?$/);
+  if (!match) return undefined;
+
+  const width = parseFloat(match[1]);
+  return match[2] && match[2] !== 'px' ? width * 16 : width;
+}
+
+/**
+ * Format a pixel length in the configured unit
+ * Example: 24 -> "24px" or "1.5rem"
+ */
+export function formatLength(px: number, options: CodegenOptions): string {
+  if (options.unit === 'rem' && px !== 0) {
+    return `${Math.round((px / options.remBase) * 10000) / 10000}rem`;
+  }
+  return `${px}px`;
+}
+
+/**
+ * Convert every px length inside a CSS value to the configured unit
+ * Example: "0px 4px 8px rgba(0, 0, 0, 0.25)" -> "0px 0.25rem 0.5rem rgba(0, 0, 0, 0.25)"
+ */
+export function convertLengths(value: string, options: CodegenOptions): string {
+  if (options.unit === 'px') return value;
+  return value.replace(/(-?\d*\.?\d+)px/g, (_, px) => formatLength(parseFloat(px), options));
+}
@@ -41,4 +41,23 @@ export function colorToRgb(color: RGBColor): string {
   }
   
   return `rgb(${rgb.join(', ')})`;
-} 
\ No newline at end of file
+}
+
+// Function to convert a CSS rgb/rgba color to hex, keeping alpha as a fourth byte
+export function cssColorToHex(color: string): string | null {
+  const match = color.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([0-9.]+)\s*)?\)/);
+  if (!match) return null;
+
+  const hex = rgbToHexFromValues(
+    parseInt(match[1], 10) / 255,
+    parseInt(match[2], 10) / 255,
+    parseInt(match[3], 10) / 255
+  );
+
+  if (match[4] === undefined || parseFloat(match[4]) === 1) {
+    return hex;
+  }
+
+  const alpha = Math.round(parseFloat(match[4]) * 255).toString(16);
+  return hex + (alpha.length === 1 ? '0' + alpha : alpha);
+}
@@ -0,0 +1,55 @@
+import { EffectValue, ShadowValue } from '../types/designTokenTypes';
+import { colorToRgb } from './colorUtils';
+
+/**
+ * Collect the visible shadows and blurs of a node or effect style. Shadows are
+ * returned top first, the order CSS lists them in.
+ */
+export function extractEffectValue(effects: readonly Effect[]): EffectValue {
+  const value: EffectValue = { shadows: [] };
+
+  effects.forEach(effect => {
+    if (!effect.visible) return;
+
+    if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+      value.shadows.unshift({
+        x: Math.round(effect.offset.x),
+        y: Math.round(effect.offset.y),
+        blur: Math.round(effect.radius),
+        spread: Math.round(effect.spread || 0),
+        color: colorToRgb({ ...effect.color, a: Math.round(effect.color.a * 100) / 100 }),
+        ...(effect.type === 'INNER_SHADOW' ? { inset: true } : {})
+      });
+    } else if (effect.type === 'LAYER_BLUR') {
+      value.layerBlur = toCssBlur(effect.radius);
+    } else if (effect.type === 'BACKGROUND_BLUR') {
+      value.backgroundBlur = toCssBlur(effect.radius);
+    }
+  });
+
+  return value;
+}
+
+/**
+ * Format shadows as a CSS `box-shadow` value
+ */
+export function shadowsToCss(shadows: ShadowValue[]): string {
+  return shadows
+    .map(shadow => `${shadow.inset ? 'inset ' : ''}${shadow.x}px ${shadow.y}px ${shadow.blur}px ${shadow.spread}px ${shadow.color}`)
+    .join(', ');
+}
+
+// Figma blur radii are about twice the standard deviation CSS blur() expects
+function toCssBlur(radius: number): number {
+  return Math.round(radius / 2);
+}
+
+/**
+ * Name of the Tailwind v4 blur token of an effect style's background blur. blur-* and
+ * backdrop-blur-* share the --blur-* namespace, so a style with both blurs gives its
+ * background blur a name of its own.
+ * Example: "glass" with a layer and a background blur -> "glass-backdrop"
+ */
+export function getBackdropBlurTokenName(tokenName: string, effect: EffectValue): string {
+  return effect.layerBlur !== undefined ? `${tokenName}-backdrop` : tokenName;
+}
@@ -0,0 +1,141 @@
+import { BackgroundGradient, GradientColorStop } from '../types/styleTypes';
+import { colorToRgb } from './colorUtils';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const GRADIENT_TYPES: Record<string, BackgroundGradient['type']> = {
+  GRADIENT_LINEAR: 'linear',
+  GRADIENT_RADIAL: 'radial',
+  // CSS has no diamond gradient, a radial one is the closest match
+  GRADIENT_DIAMOND: 'radial',
+  GRADIENT_ANGULAR: 'conic'
+};
+
+/**
+ * Convert a Figma gradient paint into the geometry CSS gradients are described with.
+ * `gradientTransform` maps the node's unit square into gradient space, so its inverse
+ * gives the handle positions: start (0, 0.5), end (1, 0.5) and width (0, 1).
+ */
+export function extractGradient(paint: GradientPaint, width: number, height: number): BackgroundGradient | null {
+  const type = GRADIENT_TYPES[paint.type];
+  if (!type || !paint.gradientStops || paint.gradientStops.length === 0) {
+    return null;
+  }
+
+  const toNode = invertTransform(paint.gradientTransform);
+  if (!toNode) {
+    return null;
+  }
+
+  const opacity = paint.opacity ?? 1;
+  const stops: GradientColorStop[] = paint.gradientStops.map(stop => ({
+    color: colorToRgb({ ...stop.color, a: round(stop.color.a * opacity, 2) }),
+    position: stop.position * 100
+  }));
+
+  // Work in pixels so non-square nodes keep their angles
+  const toPixels = (point: Point): Point => {
+    const p = applyTransform(toNode, point);
+    return { x: p.x * width, y: p.y * height };
+  };
+
+  if (type === 'linear') {
+    const start = toPixels({ x: 0, y: 0.5 });
+    const end = toPixels({ x: 1, y: 0.5 });
+    const angle = toCssAngle(end.x - start.x, end.y - start.y);
+
+    // CSS stops are placed along a line through the center that just reaches the corners
+    const radians = angle * Math.PI / 180;
+    const direction = { x: Math.sin(radians), y: -Math.cos(radians) };
+    const length = Math.abs(width * direction.x) + Math.abs(height * direction.y);
+    const project = (point: Point) =>
+      ((point.x - width / 2) * direction.x + (point.y - height / 2) * direction.y) / length + 0.5;
+    const startOffset = project(start);
+    const endOffset = project(end);
+
+    return {
+      type,
+      angle,
+      center: { x: 50, y: 50 },
+      radius: { x: 50, y: 50 },
+      stops: stops.map(stop => ({
+        ...stop,
+        position: round((startOffset + (endOffset - startOffset) * stop.position / 100) * 100, 1)
+      }))
+    };
+  }
+
+  const center = toPixels({ x: 0.5, y: 0.5 });
+  const radiusEnd = toPixels({ x: 1, y: 0.5 });
+  const widthEnd = toPixels({ x: 0.5, y: 1 });
+
+  return {
+    type,
+    angle: type === 'conic' ? toCssAngle(radiusEnd.x - center.x, radiusEnd.y - center.y) : 0,
+    center: {
+      x: round(center.x / width * 100, 1),
+      y: round(center.y / height * 100, 1)
+    },
+    radius: {
+      x: round(distance(center, radiusEnd) / width * 100, 1),
+      y: round(distance(center, widthEnd) / height * 100, 1)
+    },
+    stops: stops.map(stop => ({ ...stop, position: round(stop.position, 1) }))
+  };
+}
+
+/**
+ * Format a gradient as a CSS `background-image` value
+ */
+export function gradientToCss(gradient: BackgroundGradient): string {
+  const stops = gradient.stops.map(stop => `${stop.color} ${stop.position}%`).join(', ');
+  const center = `${gradient.center.x}% ${gradient.center.y}%`;
+
+  switch (gradient.type) {
+    case 'linear':
+      return `linear-gradient(${gradient.angle}deg, ${stops})`;
+    case 'radial':
+      return `radial-gradient(${gradient.radius.x}% ${gradient.radius.y}% at ${center}, ${stops})`;
+    case 'conic':
+      return `conic-gradient(from ${gradient.angle}deg at ${center}, ${stops})`;
+  }
+}
+
+// CSS angles start at the top and run clockwise
+function toCssAngle(dx: number, dy: number): number {
+  const angle = Math.round(Math.atan2(dx, -dy) * 180 / Math.PI);
+  return (angle + 360) % 360;
+}
+
+function invertTransform(transform: Transform): Transform | null {
+  const [[a, b, c], [d, e, f]] = transform;
+  const determinant = a * e - b * d;
+  if (Math.abs(determinant) < 1e-9) {
+    return null;
+  }
+
+  return [
+    [e / determinant, -b / determinant, (b * f - c * e) / determinant],
+    [-d / determinant, a / determinant, (c * d - a * f) / determinant]
+  ];
+}
+
+function applyTransform(transform: Transform, point: Point): Point {
+  const [[a, b, c], [d, e, f]] = transform;
+  return {
+    x: a * point.x + b * point.y + c,
+    y: d * point.x + e * point.y + f
+  };
+}
+
+function distance(from: Point, to: Point): number {
+  return Math.hypot(to.x - from.x, to.y - from.y);
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
@@ -22,4 +22,25 @@ export function generateComponentName(name: string): string {
     .join('')
     .replace(/^[^a-zA-Z]+/, '')
     || 'Component';
-} 
\ No newline at end of file
+}
+
+/**
+ * Generates a prop name from a component property name, without the "#id" suffix
+ * Figma adds to non-variant properties
+ * Example: "Show icon#12:3" -> "showIcon"
+ */
+export function propertyNameToProp(name: string): string {
+  const words = name
+    .replace(/#[^#]*$/, '')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+
+  const prop = words
+    .map((word, index) => index === 0 ?
+      word.charAt(0).toLowerCase() + word.slice(1) :
+      word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+    .replace(/^[^a-zA-Z_]+/, '');
+
+  return prop || 'prop';
+}
@@ -0,0 +1,101 @@
+/**
+ * Corner radii in CSS order: top-left, top-right, bottom-right, bottom-left
+ */
+export type CornerRadii = [number, number, number, number];
+
+interface CornerPath {
+  // Distance from the corner where the smoothed curve starts
+  p: number;
+  // Bezier handle lengths and offsets around the circular arc
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  arcLength: number;
+  radius: number;
+}
+
+/**
+ * Outline of a rectangle with Figma's smoothed corners as an SVG path.
+ * Each corner is a circular arc shortened by the smoothing, joined to the edges
+ * by bezier curves that spread the turn over up to (1 + smoothing) * radius.
+ * Example: (100, 100, [16, 16, 16, 16], 0.6) -> "M 25.6 0 L 74.4 0 c ..."
+ */
+export function getSquirclePath(width: number, height: number, radii: CornerRadii, smoothing: number): string {
+  // Corners share the shorter side, so none may take more than half of it
+  const budget = Math.min(width, height) / 2;
+  const [topLeft, topRight, bottomRight, bottomLeft] = radii.map(radius => getCornerPath(radius, smoothing, budget));
+
+  const commands = [
+    `M ${topLeft.p} 0`,
+    `L ${width - topRight.p} 0`,
+    drawCorner(topRight, 1, 1, false),
+    `L ${width} ${height - bottomRight.p}`,
+    drawCorner(bottomRight, -1, 1, true),
+    `L ${bottomLeft.p} ${height}`,
+    drawCorner(bottomLeft, -1, -1, false),
+    `L 0 ${topLeft.p}`,
+    drawCorner(topLeft, 1, -1, true),
+    'Z'
+  ];
+
+  return commands
+    .filter(Boolean)
+    .join(' ')
+    .replace(/-?\d*\.\d+/g, value => String(round(parseFloat(value))));
+}
+
+/**
+ * Curve lengths of one corner, following Figma's "Desperately seeking squircles".
+ * Smoothing is reduced when the corner would need more room than the budget.
+ */
+function getCornerPath(cornerRadius: number, cornerSmoothing: number, budget: number): CornerPath {
+  const radius = Math.min(cornerRadius, budget);
+  if (radius <= 0) {
+    return { p: 0, a: 0, b: 0, c: 0, d: 0, arcLength: 0, radius: 0 };
+  }
+
+  const smoothing = Math.min(cornerSmoothing, budget / radius - 1);
+  const p = Math.min((1 + cornerSmoothing) * radius, budget);
+
+  const arcMeasure = 90 * (1 - smoothing);
+  const arcLength = Math.sin(toRadians(arcMeasure / 2)) * radius * Math.SQRT2;
+  const angleAlpha = (90 - arcMeasure) / 2;
+  const p3ToP4Distance = radius * Math.tan(toRadians(angleAlpha / 2));
+  const angleBeta = 45 * smoothing;
+  const c = p3ToP4Distance * Math.cos(toRadians(angleBeta));
+  const d = c * Math.tan(toRadians(angleBeta));
+  const b = (p - arcLength - c - d) / 3;
+
+  return { p, a: 2 * b, b, c, d, arcLength, radius };
+}
+
+/**
+ * Relative path commands for one corner, drawn clockwise. `dx`/`dy` give the
+ * direction the outline moves in; corners entered along a vertical edge swap
+ * the curve's axes.
+ */
+function drawCorner(corner: CornerPath, dx: number, dy: number, vertical: boolean): string {
+  if (corner.radius === 0) {
+    return '';
+  }
+
+  const { a, b, c, d, arcLength, radius } = corner;
+  const point = (along: number, across: number) => vertical ?
+    `${across * dx} ${along * dy}` :
+    `${along * dx} ${across * dy}`;
+
+  return [
+    `c ${point(a, 0)} ${point(a + b, 0)} ${point(a + b + c, d)}`,
+    `a ${radius} ${radius} 0 0 1 ${point(arcLength, arcLength)}`,
+    `c ${point(d, c)} ${point(d, b + c)} ${point(d, a + b + c)}`
+  ].join(' ');
+}
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -80,4 +80,34 @@ export function cleanupTailwindClasses(classes: string): string {
   });
   
   return cleanedClasses.join(' ');
-} 
\ No newline at end of file
+}
+
+// Figma font style keywords mapped to numeric weights, longest keywords first
+const FONT_WEIGHTS: Array<[string, number]> = [
+  ['extralight', 200],
+  ['ultralight', 200],
+  ['extrabold', 800],
+  ['ultrabold', 800],
+  ['semibold', 600],
+  ['demibold', 600],
+  ['hairline', 100],
+  ['regular', 400],
+  ['normal', 400],
+  ['medium', 500],
+  ['light', 300],
+  ['black', 900],
+  ['heavy', 900],
+  ['thin', 100],
+  ['book', 400],
+  ['bold', 700]
+];
+
+/**
+ * Map a Figma font style such as "Semi Bold Italic" to a numeric weight
+ * Returns null when the style name has no recognizable weight keyword
+ */
+export function fontStyleToWeight(fontStyle: string): number | null {
+  const normalized = fontStyle.toLowerCase().replace(/[\s_-]+/g, '');
+  const match = FONT_WEIGHTS.find(([keyword]) => normalized.includes(keyword));
+  return match ? match[1] : null;
+}
@@ -0,0 +1,49 @@
+import { NodeTransform } from '../types/styleTypes';
+
+/**
+ * Split a node's `relativeTransform` into the CSS transforms Tailwind composes:
+ * rotate, then skew-x, then scale. Mirroring shows up as a negative scale on
+ * whichever axis keeps the rotation smallest. The translation is ignored since
+ * it is the node's x/y. Returns null for untransformed nodes.
+ */
+export function decomposeTransform(transform: Transform): NodeTransform | null {
+  const [[a, c], [b, d]] = transform;
+  const determinant = a * d - b * c;
+  if (Math.hypot(a, b) === 0 || determinant === 0) {
+    return null;
+  }
+
+  let result = decomposeLinear(a, b, c, d);
+  if (determinant < 0) {
+    // Undo the mirroring on one axis, decompose, then put it back as a negative scale
+    const flippedX = decomposeLinear(-a, -b, c, d);
+    const flippedY = decomposeLinear(a, b, -c, -d);
+    result = Math.abs(flippedX.rotate) <= Math.abs(flippedY.rotate) ?
+      { ...flippedX, scaleX: -flippedX.scaleX } :
+      { ...flippedY, scaleY: -flippedY.scaleY };
+  }
+
+  const isIdentity = result.rotate === 0 && result.skewX === 0 && result.scaleX === 1 && result.scaleY === 1;
+  return isIdentity ? null : result;
+}
+
+/**
+ * Decompose a 2x2 matrix with a positive determinant as rotate · skewX · scale
+ */
+function decomposeLinear(a: number, b: number, c: number, d: number): NodeTransform {
+  const scaleX = Math.hypot(a, b);
+  const determinant = a * d - b * c;
+
+  return {
+    rotate: round(Math.atan2(b, a) * 180 / Math.PI, 2),
+    skewX: round(Math.atan((a * c + b * d) / determinant) * 180 / Math.PI, 2),
+    scaleX: round(scaleX, 3),
+    scaleY: round(determinant / scaleX, 3)
+  };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  // Adding 0 turns -0 into 0
+  return Math.round(value * factor) / factor + 0;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CODEGEN_OPTIONS, getCodegenOptions } from '../src/utils/codegenOptions';
+
+const preferences = (customSettings: Record<string, string>): CodegenPreferences => ({
+  unit: 'pixel',
+  customSettings
+});
+
+describe('getCodegenOptions', () => {
+  it('reads the state property and variant output from the custom settings', () => {
+    const options = getCodegenOptions(preferences({ stateProperty: 'Interaction', variantOutput: 'slots' }));
+
+    expect(options.stateProperty).toBe('Interaction');
+    expect(options.variantOutput).toBe('slots');
+  });
+
+  it('falls back to the defaults for missing settings', () => {
+    expect(getCodegenOptions(preferences({}))).toEqual(DEFAULT_CODEGEN_OPTIONS);
+  });
+});
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { generateComponentBody } from '../src/services/components/componentBody';
+import { extractDesignTokens } from '../src/services/designTokenExtractor';
+import { FigmaFake, installFigmaFake, solid } from './figma/figmaFake';
+
+describe('generateComponentBody', () => {
+  let figma: FigmaFake;
+
+  beforeEach(() => {
+    figma = installFigmaFake();
+  });
+
+  it('wraps differently styled text runs in their own elements', async () => {
+    const link = figma.addPaintStyle('Brand/Link', [solid(37, 99, 235)]);
+    const text = figma.createText({ name: 'Notice', fills: [solid(17, 24, 39)] });
+    figma.setTextSegments(text, [
+      { characters: 'Read the ' },
+      { characters: 'terms', fills: [solid(37, 99, 235)], fillStyleId: link.id, hyperlink: { type: 'URL', value: 'https://example.com/terms' } },
+      { characters: ' before you ' },
+      { characters: 'continue', fontName: { family: 'Inter', style: 'Bold' }, fontWeight: 700 }
+    ]);
+    const tokens = await extractDesignTokens();
+
+    expect(await generateComponentBody(text, tokens)).toMatchSnapshot();
+  });
+
+  it('escapes text and links JSX would parse', async () => {
+    const text = figma.createText({ name: 'Hint', fills: [solid(17, 24, 39)] });
+    figma.setTextSegments(text, [
+      { characters: 'Type {name} or <tag> ' },
+      { characters: 'here', fills: [solid(37, 99, 235)], hyperlink: { type: 'URL', value: 'https://example.com/?q="a"' } }
+    ]);
+    const tokens = await extractDesignTokens();
+
+    const body = await generateComponentBody(text, tokens);
+    expect(body).toContain('{"Type {name} or <tag> "}');
+    expect(body).toContain('<a href={"https://example.com/?q=\\"a\\""} className=');
+  });
+
+  it('renders spaced paragraphs as separate elements', async () => {
+    const text = figma.createText({ name: 'Description', paragraphSpacing: 8 });
+    figma.setTextSegments(text, [
+      { characters: 'First paragraph with ' },
+      { characters: 'bold\nwords', fontName: { family: 'Inter', style: 'Bold' }, fontWeight: 700 },
+      { characters: ' in the second.' }
+    ]);
+    const tokens = await extractDesignTokens();
+
+    const body = await generateComponentBody(text, tokens);
+    expect(body).toMatch(/^<div id="Description" className="[^"]*\bspace-y-2\b[^"]*">/);
+    expect(body).toContain('<p>First paragraph with <strong className="font-bold">bold</strong></p>\n');
+    expect(body).toContain('<p><strong className="font-bold">words</strong> in the second.</p>');
+  });
+
+  it('clips the layers above an ellipse mask instead of drawing the mask', async () => {
+    const avatar = figma.createGroup({
+      name: 'Avatar',
+      width: 48,
+      height: 48,
+      children: [
+        figma.createEllipse({ name: 'Mask', width: 48, height: 48, isMask: true, fills: [solid(0, 0, 0)] }),
+        figma.createRectangle({ name: 'Photo', width: 48, height: 48, fills: [solid(229, 231, 235)], blendMode: 'MULTIPLY' })
+      ]
+    });
+    const tokens = await extractDesignTokens();
+
+    const body = await generateComponentBody(avatar, tokens);
+    expect(body).toMatch(/id="Avatar" className="[^"]*\boverflow-hidden rounded-full\b/);
+    expect(body).toContain('mix-blend-multiply');
+    expect(body).not.toContain('id="Mask"');
+  });
+});
@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { parse } from '@babel/parser';
+import { generateReactComponent } from '../src/services/componentGenerator';
+import { extractDesignTokens } from '../src/services/designTokenExtractor';
+import { DEFAULT_CODEGEN_OPTIONS } from '../src/utils/codegenOptions';
+import { FigmaFake, installFigmaFake, solid } from './figma/figmaFake';
+import { createButtonSet } from './fixtures/button';
+import { createCard } from './fixtures/card';
+import { createTagSet } from './fixtures/tag';
+
+/**
+ * Check that generated code parses as TSX and only calls variant functions it declares
+ */
+function expectValidComponent(code: string): void {
+  expect(() => parse(code, { sourceType: 'module', plugins: ['jsx', 'typescript'] })).not.toThrow();
+
+  const declared = [...code.matchAll(/const (\w+Variants) =/g)].map(match => match[1]);
+  const called = [...code.matchAll(/\b(\w+Variants)\(/g)].map(match => match[1]);
+  expect(called.filter(name => !declared.includes(name))).toEqual([]);
+}
+
+describe('generateReactComponent', () => {
+  let figma: FigmaFake;
+
+  beforeEach(() => {
+    figma = installFigmaFake();
+  });
+
+  it('generates a component for a frame', async () => {
+    const card = createCard(figma);
+    const tokens = await extractDesignTokens();
+
+    expect(await generateReactComponent(card, tokens)).toMatchSnapshot();
+  });
+
+  it('generates a variant component for a component set', async () => {
+    const button = createButtonSet(figma);
+    const tokens = await extractDesignTokens();
+
+    const code = await generateReactComponent(button, tokens);
+    expectValidComponent(code);
+    expect(code.match(/>Button</g)).toHaveLength(1);
+    expect(code).not.toContain('Label2');
+    expect(code).toMatch(/\n\s*\{size === "large" && \(<img [^>]*className=\{IconVariants\(\{ variant, size \}\)\} \/>\)\}\n/);
+    expect(code).toMatch(/const LabelVariants = cva\([^;]*small: "text-sm",\n\s*large: "text-base",/);
+    expect(code).not.toContain('bg-[bg-');
+    expect(code).toMatchSnapshot();
+  });
+
+  it('switches text that differs between variants on the prop values', async () => {
+    const variants = (['Confirm', 'Cancel'] as const).map(action => figma.createComponent({
+      name: `Action=${action}`,
+      children: [figma.createText({
+        name: 'Label',
+        characters: action === 'Confirm' ? 'Save "draft"' : 'Discard',
+        fills: [action === 'Confirm' ? solid(255, 255, 255) : solid(17, 24, 39)]
+      })]
+    }));
+    const dialogButton = figma.createComponentSet({ name: 'Dialog Button', children: variants });
+    const tokens = await extractDesignTokens();
+
+    const code = await generateReactComponent(dialogButton, tokens);
+    expectValidComponent(code);
+    expect(code).toContain('case "confirm":\n');
+    expect(code).toContain('return "Save \\"draft\\"";');
+    expect(code).toContain('case "cancel":\n');
+  });
+
+  it('leaves out TypeScript types for JavaScript output', async () => {
+    const button = createButtonSet(figma);
+    const tokens = await extractDesignTokens();
+    const options = { ...DEFAULT_CODEGEN_OPTIONS, language: 'javascript' as const };
+
+    const code = await generateReactComponent(button, tokens, true, undefined, options);
+    expect(code).not.toContain('interface ButtonProps');
+    expect(code).not.toContain(': ButtonProps');
+  });
+
+  it('types the props of an instance for TypeScript output only', async () => {
+    const badge = figma.createComponent({
+      name: 'Badge',
+      layoutMode: 'HORIZONTAL',
+      children: [figma.createText({ name: 'Label', characters: 'New' })]
+    });
+    const instance = figma.createInstance(badge, {
+      name: 'Badge',
+      componentProperties: {
+        'Label#1:1': { type: 'TEXT', value: 'New' },
+        'Show dot#1:2': { type: 'BOOLEAN', value: false }
+      }
+    });
+    const tokens = await extractDesignTokens();
+
+    const code = await generateReactComponent(instance, tokens, true);
+    expect(code).toContain('interface BadgeProps {\n  label?: string;\n  showDot?: boolean;\n}');
+    expect(code).toContain('function Badge({ label, showDot }: BadgeProps) {');
+    expectValidComponent(code);
+
+    const options = { ...DEFAULT_CODEGEN_OPTIONS, language: 'javascript' as const };
+    const jsCode = await generateReactComponent(instance, tokens, true, undefined, options);
+    expect(jsCode).not.toContain('interface BadgeProps');
+    expect(jsCode).toContain('function Badge({ label, showDot }) {');
+    expect(() => parse(jsCode, { sourceType: 'module', plugins: ['jsx'] })).not.toThrow();
+  });
+
+  it('passes on/off variants of nested instances as booleans', async () => {
+    const variants = (['On', 'Off'] as const).map(checked => figma.createComponent({ name: `Checked=${checked}`, width: 32, height: 16 }));
+    figma.createComponentSet({
+      name: 'Switch',
+      children: variants,
+      componentPropertyDefinitions: {
+        Checked: { type: 'VARIANT', defaultValue: 'On', variantOptions: ['On', 'Off'] }
+      }
+    });
+    const settings = figma.createFrame({
+      name: 'Settings',
+      layoutMode: 'VERTICAL',
+      children: [figma.createInstance(variants[1], { name: 'Switch' })]
+    });
+    const tokens = await extractDesignTokens();
+
+    const code = await generateReactComponent(settings, tokens, true);
+    expect(code).toContain('<Switch checked={false} id="Switch" />');
+  });
+
+  it('generates tailwind-variants slots for every styled element', async () => {
+    const button = createButtonSet(figma);
+    const tokens = await extractDesignTokens();
+    const options = { ...DEFAULT_CODEGEN_OPTIONS, variantOutput: 'slots' as const };
+
+    const code = await generateReactComponent(button, tokens, true, undefined, options);
+    expect(code).toContain('import { tv } from "tailwind-variants";');
+    expect(code).not.toContain('cva(');
+    expect(code).toMatch(/slots: \{\n    base: "[^"]*",\n    icon: "[^"]*",\n    label: "[^"]*",\n  \}/);
+    expect(code).toContain('small: { base: "rounded-md');
+    expect(code).toContain('const slots = ButtonVariants(variantProps);');
+    expect(code).toContain('<div className={slots.base({ class: className })} {...props}>');
+    expect(code).toMatch(/\{size === "large" && \(<img [^>]*className=\{slots\.icon\(\)\} \/>\)\}/);
+    expect(code.match(/<span className=\{slots\.\w+\(\)\}>Button<\/span>/g)).toEqual(['<span className={slots.label()}>Button</span>']);
+    expectValidComponent(code);
+  });
+
+  it('turns text, boolean and instance swap properties into typed props', async () => {
+    const tag = createTagSet(figma);
+    const tokens = await extractDesignTokens();
+
+    const code = await generateReactComponent(tag, tokens);
+    expect(code).toContain('import type { ReactNode } from "react";');
+    expect(code).toMatch(/interface TagProps \{[^}]*label\?: string;\n  showIcon\?: boolean;\n  icon\?: ReactNode;/);
+    expect(code).toContain('  label = "Tag",\n  showIcon = true,\n  icon,\n');
+    expect(code).toMatch(/\{showIcon && \(icon \?\? <IconStar[^>]*\/>\)\}/);
+    expect(code).toMatch(/<span className=[^>]*>\{label\}<\/span>/);
+  });
+
+  it('turns on/off variant properties into boolean props', async () => {
+    const variants = (['No', 'Yes'] as const).map(outlined => figma.createComponent({
+      name: `Size=Small, Outlined=${outlined}`,
+      width: 40,
+      height: 24,
+      fills: [solid(243, 244, 246)],
+      strokes: outlined === 'Yes' ? [solid(17, 24, 39)] : [],
+      strokeWeight: outlined === 'Yes' ? 1 : 0
+    }));
+    const chip = figma.createComponentSet({ name: 'Chip', children: variants });
+    const tokens = await extractDesignTokens();
+
+    const code = await generateReactComponent(chip, tokens);
+    expect(code).toContain('  outlined?: boolean;');
+    expect(code).toMatch(/outlined: \{\n\s+false: "",\n\s+true: "[^"]*border[^"]*",\n/);
+    expect(code).toMatch(/defaultVariants: \{\n\s+size: "small",\n\s+outlined: false,/);
+    expect(code).toContain('  outlined = false,');
+  });
+
+  it('defaults variant props to the values of the default variant', async () => {
+    const variants = (['Small', 'Large'] as const).flatMap(size => (['No', 'Yes'] as const).map(outlined => figma.createComponent({
+      name: `Size=${size}, Outlined=${outlined}`,
+      width: size === 'Small' ? 40 : 56,
+      height: 24,
+      strokes: outlined === 'Yes' ? [solid(17, 24, 39)] : [],
+      strokeWeight: outlined === 'Yes' ? 1 : 0
+    })));
+    const chip = figma.createComponentSet({ name: 'Chip', children: variants, defaultVariant: variants[3] });
+    const tokens = await extractDesignTokens();
+
+    const code = await generateReactComponent(chip, tokens);
+    expect(code).toMatch(/defaultVariants: \{\n\s+size: "large",\n\s+outlined: true,/);
+    expect(code).toContain('  size = "large",\n  outlined = true,');
+  });
+});
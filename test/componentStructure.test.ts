@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { analyzeComponentStructure } from '../src/services/variants/componentStructure';
+import { generateAllCvaDefinitions } from '../src/services/variants/cvaGenerator';
+import { extractDesignTokens } from '../src/services/designTokenExtractor';
+import { FigmaFake, installFigmaFake } from './figma/figmaFake';
+import { createButtonSet } from './fixtures/button';
+
+const variantProps = {
+  Variant: ['Primary', 'Secondary'],
+  Size: ['Small', 'Large']
+};
+
+describe('analyzeComponentStructure', () => {
+  let figma: FigmaFake;
+
+  beforeEach(() => {
+    figma = installFigmaFake();
+  });
+
+  it('collects styles and presence for every variant', async () => {
+    const button = createButtonSet(figma);
+    const tokens = await extractDesignTokens();
+
+    const structure = await analyzeComponentStructure(button, tokens, variantProps);
+
+    expect(Object.keys(structure.styles)).toEqual([
+      'Variant=Primary:Size=Small',
+      'Variant=Primary:Size=Large',
+      'Variant=Secondary:Size=Small',
+      'Variant=Secondary:Size=Large'
+    ]);
+    expect(structure.children.map(child => child.name)).toEqual(['icon', 'label']);
+    expect(Object.keys(structure.children[0].present)).toEqual(['Variant=Primary:Size=Large', 'Variant=Secondary:Size=Large']);
+    expect(Object.keys(structure.children[1].present)).toHaveLength(4);
+    expect(structure).toMatchSnapshot();
+  });
+});
+
+describe('generateAllCvaDefinitions', () => {
+  let figma: FigmaFake;
+
+  beforeEach(() => {
+    figma = installFigmaFake();
+  });
+
+  it('generates CVA definitions for the component and its children', async () => {
+    const button = createButtonSet(figma);
+    const tokens = await extractDesignTokens();
+    const structure = await analyzeComponentStructure(button, tokens, variantProps);
+
+    expect(generateAllCvaDefinitions('Button', structure, variantProps, tokens)).toMatchSnapshot();
+  });
+});
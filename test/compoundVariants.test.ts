@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { decomposeVariantStyles, reproducesVariantStyles } from '../src/services/variants/compoundVariants';
+import { VariantStyleMap } from '../src/services/variants/componentStructure';
+
+const variantProps = {
+  Type: ['Primary', 'Secondary'],
+  Size: ['Small', 'Large']
+};
+
+const toStyles = (classes: Record<string, string>): VariantStyleMap => Object.fromEntries(
+  Object.entries(classes).map(([variantKey, tailwindClasses]) => [variantKey, { tailwindClasses, originalStyles: {} }])
+);
+
+describe('decomposeVariantStyles', () => {
+  it('attributes classes to single props and keeps combinations as compound variants', () => {
+    const styles = toStyles({
+      'Type=Primary:Size=Small': 'flex bg-blue-500 px-2 text-sm',
+      'Type=Primary:Size=Large': 'flex bg-blue-500 px-4 shadow-md',
+      'Type=Secondary:Size=Small': 'flex bg-white px-2 text-sm',
+      'Type=Secondary:Size=Large': 'flex bg-white px-4'
+    });
+
+    const decomposition = decomposeVariantStyles(styles, variantProps);
+    expect(decomposition).toEqual({
+      base: ['flex'],
+      variants: {
+        Type: { Primary: ['bg-blue-500'], Secondary: ['bg-white'] },
+        Size: { Small: ['px-2', 'text-sm'], Large: ['px-4'] }
+      },
+      compoundVariants: [
+        { conditions: { Type: 'Primary', Size: 'Large' }, classes: ['shadow-md'] }
+      ]
+    });
+    expect(reproducesVariantStyles(decomposition, styles, variantProps)).toBe(true);
+  });
+
+  it('uses the smallest combination of props a class depends on', () => {
+    const styles = toStyles({
+      'Type=Primary:Size=Small:Tone=Dark': 'ring-1',
+      'Type=Primary:Size=Small:Tone=Light': 'ring-1 opacity-90',
+      'Type=Primary:Size=Large:Tone=Dark': '',
+      'Type=Secondary:Size=Small:Tone=Dark': '',
+      'Type=Secondary:Size=Small:Tone=Light': ''
+    });
+    const props = { ...variantProps, Tone: ['Dark', 'Light'] };
+
+    const decomposition = decomposeVariantStyles(styles, props);
+    expect(decomposition.compoundVariants).toEqual([
+      { conditions: { Type: 'Primary', Size: 'Small' }, classes: ['ring-1'] },
+      { conditions: { Type: 'Primary', Tone: 'Light' }, classes: ['opacity-90'] }
+    ]);
+    expect(reproducesVariantStyles(decomposition, styles, props)).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { extractEffectValue, shadowsToCss } from '../src/utils/effectUtils';
+
+const shadow = (type: 'DROP_SHADOW' | 'INNER_SHADOW', y: number): Effect => ({
+  type,
+  color: { r: 0, g: 0, b: 0, a: 0.25 },
+  offset: { x: 0, y },
+  radius: 8,
+  spread: 0,
+  visible: true,
+  blendMode: 'NORMAL'
+});
+
+describe('extractEffectValue', () => {
+  it('stacks drop and inner shadows top first', () => {
+    const value = extractEffectValue([shadow('DROP_SHADOW', 4), shadow('INNER_SHADOW', 1)]);
+
+    expect(value.shadows).toEqual([
+      { x: 0, y: 1, blur: 8, spread: 0, color: 'rgba(0, 0, 0, 0.25)', inset: true },
+      { x: 0, y: 4, blur: 8, spread: 0, color: 'rgba(0, 0, 0, 0.25)' }
+    ]);
+    expect(shadowsToCss(value.shadows)).toBe('inset 0px 1px 8px 0px rgba(0, 0, 0, 0.25), 0px 4px 8px 0px rgba(0, 0, 0, 0.25)');
+  });
+
+  it('halves blur radii and skips hidden effects', () => {
+    const value = extractEffectValue([
+      { type: 'LAYER_BLUR', radius: 16, visible: true },
+      { type: 'BACKGROUND_BLUR', radius: 24, visible: true },
+      { ...shadow('DROP_SHADOW', 2), visible: false }
+    ] as Effect[]);
+
+    expect(value).toEqual({ shadows: [], layerBlur: 8, backgroundBlur: 12 });
+  });
+});
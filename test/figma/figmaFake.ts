@@ -0,0 +1,406 @@
+/**
+ * @file figmaFake.ts
+ * An in-memory stand-in for the `figma` plugin global. It holds nodes, styles and
+ * variables, and builds nodes with the defaults the real API gives them so the
+ * generators can run outside of Figma.
+ */
+
+type Writable<T> = { -readonly [K in keyof T]?: T[K] };
+
+// Props accepted by the node builders: any writable node field, plus children
+type NodeProps<T> = Writable<Omit<T, 'type' | 'parent' | 'children'>> & { children?: SceneNode[] };
+
+// A run of text; fields it leaves out take the text node's own values
+type TextSegmentProps = Partial<Omit<StyledTextSegment, 'start' | 'end'>> & { characters: string };
+
+// Text fields that read as `figma.mixed` when they differ between runs
+const TEXT_SEGMENT_FIELDS = [
+  'fontSize', 'fontName', 'fontWeight', 'fills', 'fillStyleId', 'textStyleId',
+  'letterSpacing', 'lineHeight', 'hyperlink', 'textDecoration', 'textCase'
+] as const;
+
+export interface FigmaFake {
+  api: PluginAPI;
+  mixed: symbol;
+  createFrame(props?: NodeProps<FrameNode>): FrameNode;
+  createGroup(props?: NodeProps<GroupNode>): GroupNode;
+  createRectangle(props?: NodeProps<RectangleNode>): RectangleNode;
+  createEllipse(props?: NodeProps<EllipseNode>): EllipseNode;
+  createVector(props?: NodeProps<VectorNode>): VectorNode;
+  createText(props?: NodeProps<TextNode>): TextNode;
+  createComponent(props?: NodeProps<ComponentNode>): ComponentNode;
+  createComponentSet(props?: NodeProps<ComponentSetNode>): ComponentSetNode;
+  createInstance(mainComponent: ComponentNode, props?: NodeProps<InstanceNode>): InstanceNode;
+  setTextSegments(node: TextNode, segments: TextSegmentProps[]): void;
+  addPaintStyle(name: string, paints: Paint[], description?: string): PaintStyle;
+  addTextStyle(name: string, props: Writable<TextStyle>): TextStyle;
+  addEffectStyle(name: string, effects: Effect[], description?: string): EffectStyle;
+  addVariableCollection(name: string, modeNames?: string[]): VariableCollection;
+  addVariable(
+    collection: VariableCollection,
+    name: string,
+    resolvedType: VariableResolvedDataType,
+    valuesByMode: Record<string, VariableValue>
+  ): Variable;
+}
+
+/**
+ * Create a fake and install it as the `figma` global
+ */
+export function installFigmaFake(): FigmaFake {
+  const fake = createFigmaFake();
+  (globalThis as any).figma = fake.api;
+  return fake;
+}
+
+export function createFigmaFake(): FigmaFake {
+  const mixed = Symbol('figma.mixed');
+  const nodes = new Map<string, BaseNode>();
+  const styles = new Map<string, BaseStyle>();
+  const variables = new Map<string, Variable>();
+  const collections = new Map<string, VariableCollection>();
+  let nextId = 1;
+
+  const createId = (prefix: string) => `${prefix}:${nextId++}`;
+
+  // Bounds derived from x/y are relative until the node is added to a parent
+  const derivedBounds = new WeakSet<object>();
+  const offsetBounds = (node: SceneNode, dx: number, dy: number) => {
+    if (derivedBounds.has(node) && node.absoluteBoundingBox) {
+      const bounds = node.absoluteBoundingBox as { x: number; y: number };
+      bounds.x += dx;
+      bounds.y += dy;
+    }
+    if ('children' in node) {
+      node.children.forEach(child => offsetBounds(child, dx, dy));
+    }
+  };
+
+  // Handle the fields every scene node has
+  const createNode = <T extends SceneNode>(type: T['type'], defaults: Record<string, any>, props: NodeProps<T> = {}): T => {
+    const { children, ...fields } = props;
+    const id = (fields as Record<string, any>).id || createId('1');
+    const node: Record<string, any> = {
+      id,
+      type,
+      name: type.charAt(0) + type.slice(1).toLowerCase(),
+      parent: null,
+      removed: false,
+      visible: true,
+      locked: false,
+      opacity: 1,
+      blendMode: 'PASS_THROUGH',
+      isMask: false,
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      rotation: 0,
+      constraints: { horizontal: 'MIN', vertical: 'MIN' },
+      minWidth: null,
+      maxWidth: null,
+      minHeight: null,
+      maxHeight: null,
+      layoutAlign: 'INHERIT',
+      layoutGrow: 0,
+      layoutPositioning: 'AUTO',
+      layoutSizingHorizontal: 'FIXED',
+      layoutSizingVertical: 'FIXED',
+      effects: [],
+      effectStyleId: '',
+      boundVariables: {},
+      exportSettings: [],
+      componentPropertyReferences: null,
+      ...defaults,
+      ...fields
+    };
+
+    if (!node.absoluteBoundingBox) {
+      node.absoluteBoundingBox = { x: node.x, y: node.y, width: node.width, height: node.height };
+      derivedBounds.add(node);
+    }
+    node.absoluteRenderBounds = node.absoluteRenderBounds || node.absoluteBoundingBox;
+    node.exportAsync = async (settings?: { format?: string }) => {
+      const format = settings?.format || 'PNG';
+      const content = format.startsWith('SVG') ?
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${node.width}" height="${node.height}"></svg>` :
+        `${format}:${node.id}`;
+      return format === 'SVG_STRING' ? content : new TextEncoder().encode(content);
+    };
+
+    if (children) {
+      node.children = children;
+      children.forEach(child => {
+        (child as Record<string, any>).parent = node;
+        offsetBounds(child, node.absoluteBoundingBox.x, node.absoluteBoundingBox.y);
+      });
+    }
+
+    nodes.set(id, node as T);
+    return node as T;
+  };
+
+  const geometryDefaults = () => ({
+    fills: [],
+    fillStyleId: '',
+    strokes: [],
+    strokeStyleId: '',
+    strokeWeight: 0,
+    strokeAlign: 'INSIDE',
+    strokeDashes: []
+  });
+
+  const cornerDefaults = () => ({
+    cornerRadius: 0,
+    topLeftRadius: 0,
+    topRightRadius: 0,
+    bottomRightRadius: 0,
+    bottomLeftRadius: 0,
+    cornerSmoothing: 0
+  });
+
+  const frameDefaults = () => ({
+    ...geometryDefaults(),
+    ...cornerDefaults(),
+    children: [],
+    layoutMode: 'NONE',
+    layoutWrap: 'NO_WRAP',
+    primaryAxisSizingMode: 'FIXED',
+    counterAxisSizingMode: 'FIXED',
+    primaryAxisAlignItems: 'MIN',
+    counterAxisAlignItems: 'MIN',
+    itemSpacing: 0,
+    counterAxisSpacing: null,
+    paddingLeft: 0,
+    paddingRight: 0,
+    paddingTop: 0,
+    paddingBottom: 0,
+    clipsContent: false
+  });
+
+  const createStyle = <T extends BaseStyle>(type: StyleType, name: string, fields: Record<string, any>): T => {
+    const id = `S:${type.toLowerCase()}-${nextId++}`;
+    const style = { id, key: id, type, name, description: '', remote: false, ...fields } as unknown as T;
+    styles.set(id, style);
+    return style;
+  };
+
+  const getStylesOfType = <T extends BaseStyle>(type: StyleType) =>
+    Array.from(styles.values()).filter(style => style.type === type) as T[];
+
+  const api = {
+    mixed,
+    viewport: {
+      bounds: { x: 0, y: 0, width: 1440, height: 900 },
+      center: { x: 720, y: 450 },
+      zoom: 1
+    },
+    getNodeByIdAsync: async (id: string) => nodes.get(id) || null,
+    getStyleByIdAsync: async (id: string) => styles.get(id) || null,
+    getLocalPaintStylesAsync: async () => getStylesOfType<PaintStyle>('PAINT'),
+    getLocalTextStylesAsync: async () => getStylesOfType<TextStyle>('TEXT'),
+    getLocalEffectStylesAsync: async () => getStylesOfType<EffectStyle>('EFFECT'),
+    variables: {
+      getLocalVariableCollectionsAsync: async () =>
+        Array.from(collections.values()).filter(collection => !collection.remote),
+      getVariableCollectionByIdAsync: async (id: string) => collections.get(id) || null,
+      getVariableByIdAsync: async (id: string) => variables.get(id) || null
+    }
+  } as unknown as PluginAPI;
+
+  return {
+    api,
+    mixed,
+
+    createFrame: props => createNode<FrameNode>('FRAME', frameDefaults(), props),
+    createGroup: props => createNode<GroupNode>('GROUP', { children: [] }, props),
+    createRectangle: props => createNode<RectangleNode>('RECTANGLE', { ...geometryDefaults(), ...cornerDefaults() }, props),
+    createEllipse: props => createNode<EllipseNode>('ELLIPSE', geometryDefaults(), props),
+    createVector: props => createNode<VectorNode>('VECTOR', { ...geometryDefaults(), vectorPaths: [] }, props),
+
+    createText: props => {
+      const text = createNode<TextNode>('TEXT', {
+      ...geometryDefaults(),
+      characters: '',
+      fontSize: 16,
+      fontName: { family: 'Inter', style: 'Regular' },
+      fontWeight: 400,
+      textAlignHorizontal: 'LEFT',
+      textAlignVertical: 'TOP',
+      textAutoResize: 'WIDTH_AND_HEIGHT',
+      // Auto-width text hugs its content
+      layoutSizingHorizontal: 'HUG',
+      layoutSizingVertical: 'HUG',
+      textCase: 'ORIGINAL',
+      textDecoration: 'NONE',
+      textTruncation: 'DISABLED',
+      maxLines: null,
+      paragraphSpacing: 0,
+      paragraphIndent: 0,
+      letterSpacing: { unit: 'PIXELS', value: 0 },
+      lineHeight: { unit: 'AUTO' },
+      hyperlink: null,
+      textStyleId: '',
+      listSpacing: 0,
+      hangingList: false,
+      leadingTrim: 'NONE'
+    }, props);
+
+      // Unless split into runs, the whole text is one segment styled like the node
+      (text as Record<string, any>).getStyledTextSegments = (fields: string[]) =>
+        text.characters ? [pickSegment({ ...text, start: 0, end: text.characters.length }, fields)] : [];
+      return text;
+    },
+
+    setTextSegments: (node, segments) => {
+      const base = { ...node } as Record<string, any>;
+      let start = 0;
+      const styled = segments.map(segment => {
+        const end = start + segment.characters.length;
+        const result = { ...base, ...segment, start, end };
+        start = end;
+        return result;
+      });
+
+      const writable = node as Record<string, any>;
+      writable.characters = segments.map(segment => segment.characters).join('');
+      TEXT_SEGMENT_FIELDS.forEach(field => {
+        if (new Set(styled.map(segment => JSON.stringify(segment[field]))).size > 1) {
+          writable[field] = mixed;
+        }
+      });
+      writable.getStyledTextSegments = (fields: string[]) => styled.map(segment => pickSegment(segment, fields));
+    },
+
+    createComponent: props => createNode<ComponentNode>('COMPONENT', {
+      ...frameDefaults(),
+      description: '',
+      componentPropertyDefinitions: {},
+      variantProperties: null
+    }, props),
+
+    createComponentSet: props => {
+      const componentSet = createNode<ComponentSetNode>('COMPONENT_SET', {
+        ...frameDefaults(),
+        description: '',
+        componentPropertyDefinitions: {}
+      }, props);
+
+      // Variants take their properties from their names (e.g. "Size=Large, State=Hover")
+      componentSet.children.forEach(child => {
+        if (child.type === 'COMPONENT') {
+          (child as Record<string, any>).variantProperties = parseVariantName(child.name);
+        }
+      });
+
+      // Like Figma, the default variant is the first one unless given
+      if (!props?.defaultVariant) {
+        (componentSet as Record<string, any>).defaultVariant = componentSet.children.find(child => child.type === 'COMPONENT');
+      }
+      return componentSet;
+    },
+
+    createInstance: (mainComponent, props) => {
+      const instance = createNode<InstanceNode>('INSTANCE', {
+        ...frameDefaults(),
+        mainComponent,
+        componentProperties: {},
+        variantProperties: mainComponent.variantProperties,
+        width: mainComponent.width,
+        height: mainComponent.height
+      }, props);
+      (instance as Record<string, any>).getMainComponentAsync = async () => mainComponent;
+      return instance;
+    },
+
+    addPaintStyle: (name, paints, description = '') =>
+      createStyle<PaintStyle>('PAINT', name, { paints, description }),
+
+    addTextStyle: (name, props) => createStyle<TextStyle>('TEXT', name, {
+      fontName: { family: 'Inter', style: 'Regular' },
+      fontSize: 16,
+      lineHeight: { unit: 'AUTO' },
+      letterSpacing: { unit: 'PIXELS', value: 0 },
+      textCase: 'ORIGINAL',
+      textDecoration: 'NONE',
+      paragraphSpacing: 0,
+      paragraphIndent: 0,
+      ...props
+    }),
+
+    addEffectStyle: (name, effects, description = '') =>
+      createStyle<EffectStyle>('EFFECT', name, { effects, description }),
+
+    addVariableCollection: (name, modeNames = ['Default']) => {
+      const id = `VariableCollectionId:${nextId++}`;
+      const modes = modeNames.map((modeName, index) => ({ modeId: `${id}/${index}`, name: modeName }));
+      const collection = {
+        id,
+        key: id,
+        name,
+        modes,
+        defaultModeId: modes[0].modeId,
+        variableIds: [] as string[],
+        remote: false
+      } as unknown as VariableCollection;
+      collections.set(id, collection);
+      return collection;
+    },
+
+    addVariable: (collection, name, resolvedType, valuesByMode) => {
+      const id = `VariableID:${nextId++}`;
+      // Values can be keyed by mode name for readability
+      const values: Record<string, VariableValue> = {};
+      Object.entries(valuesByMode).forEach(([mode, value]) => {
+        const modeId = collection.modes.find(m => m.name === mode)?.modeId || mode;
+        values[modeId] = value;
+      });
+
+      const variable = {
+        id,
+        key: id,
+        name,
+        description: '',
+        remote: false,
+        resolvedType,
+        variableCollectionId: collection.id,
+        valuesByMode: values
+      } as unknown as Variable;
+      variables.set(id, variable);
+      (collection.variableIds as string[]).push(id);
+      return variable;
+    }
+  };
+}
+
+function parseVariantName(name: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  name.split(',').forEach(part => {
+    const [key, value] = part.split('=').map(s => s.trim());
+    if (key && value !== undefined) {
+      properties[key] = value;
+    }
+  });
+  return properties;
+}
+
+/**
+ * Shorthand for a solid paint from 0-255 channel values
+ */
+export function solid(r: number, g: number, b: number, opacity = 1): SolidPaint {
+  return {
+    type: 'SOLID',
+    color: { r: r / 255, g: g / 255, b: b / 255 },
+    opacity,
+    visible: true,
+    blendMode: 'NORMAL'
+  };
+}
+
+function pickSegment(source: Record<string, any>, fields: string[]): Record<string, any> {
+  const segment: Record<string, any> = { characters: source.characters, start: source.start, end: source.end };
+  fields.forEach(field => {
+    segment[field] = source[field];
+  });
+  return segment;
+}
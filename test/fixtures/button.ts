@@ -0,0 +1,89 @@
+/**
+ * @file button.ts
+ * A button component set with Variant (Primary/Secondary) and Size (Small/Large)
+ * properties. Only the large buttons have a leading icon.
+ */
+
+import { FigmaFake, solid } from '../figma/figmaFake';
+
+const SIZES = {
+  Small: { height: 32, paddingX: 12, paddingY: 6, fontSize: 14, radius: 6 },
+  Large: { height: 44, paddingX: 20, paddingY: 10, fontSize: 16, radius: 8 }
+};
+
+export function createButtonSet(figma: FigmaFake): ComponentSetNode {
+  const primary = figma.addPaintStyle('Brand/Primary', [solid(59, 130, 246)]);
+  const surface = figma.addPaintStyle('Neutral/Surface', [solid(255, 255, 255)]);
+  const border = figma.addPaintStyle('Neutral/Border', [solid(229, 231, 235)]);
+
+  const variants: ComponentNode[] = [];
+  (['Primary', 'Secondary'] as const).forEach((variant, row) => {
+    (['Small', 'Large'] as const).forEach((size, column) => {
+      const metrics = SIZES[size];
+      const isPrimary = variant === 'Primary';
+      const children: SceneNode[] = [];
+
+      if (size === 'Large') {
+        children.push(figma.createVector({
+          name: 'Icon',
+          width: 16,
+          height: 16,
+          x: metrics.paddingX,
+          y: (metrics.height - 16) / 2,
+          fills: [isPrimary ? solid(255, 255, 255) : solid(17, 24, 39)]
+        }));
+      }
+
+      children.push(figma.createText({
+        name: 'Label',
+        characters: 'Button',
+        fontSize: metrics.fontSize,
+        fontName: { family: 'Inter', style: 'Medium' },
+        width: 48,
+        height: metrics.fontSize + 6,
+        x: metrics.paddingX + (size === 'Large' ? 24 : 0),
+        y: metrics.paddingY,
+        lineHeight: { unit: 'PIXELS', value: metrics.fontSize + 6 },
+        fills: [isPrimary ? solid(255, 255, 255) : solid(17, 24, 39)]
+      }));
+
+      variants.push(figma.createComponent({
+        name: `Variant=${variant}, Size=${size}`,
+        x: column * 160,
+        y: row * 80,
+        width: size === 'Large' ? 132 : 72,
+        height: metrics.height,
+        layoutMode: 'HORIZONTAL',
+        primaryAxisAlignItems: 'CENTER',
+        counterAxisAlignItems: 'CENTER',
+        itemSpacing: 8,
+        paddingLeft: metrics.paddingX,
+        paddingRight: metrics.paddingX,
+        paddingTop: metrics.paddingY,
+        paddingBottom: metrics.paddingY,
+        cornerRadius: metrics.radius,
+        topLeftRadius: metrics.radius,
+        topRightRadius: metrics.radius,
+        bottomRightRadius: metrics.radius,
+        bottomLeftRadius: metrics.radius,
+        fills: (isPrimary ? primary : surface).paints,
+        fillStyleId: (isPrimary ? primary : surface).id,
+        strokes: isPrimary ? [] : border.paints,
+        strokeStyleId: isPrimary ? '' : border.id,
+        strokeWeight: isPrimary ? 0 : 1,
+        children
+      }));
+    });
+  });
+
+  return figma.createComponentSet({
+    name: 'Button',
+    width: 320,
+    height: 160,
+    componentPropertyDefinitions: {
+      Variant: { type: 'VARIANT', defaultValue: 'Primary', variantOptions: ['Primary', 'Secondary'] },
+      Size: { type: 'VARIANT', defaultValue: 'Small', variantOptions: ['Small', 'Large'] }
+    },
+    children: variants
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * @file card.ts
+ * A vertical auto layout card with an image, text using text styles, a shadow
+ * effect style and an instance of the button component.
+ */
+
+import { FigmaFake, solid } from '../figma/figmaFake';
+import { createButtonSet } from './button';
+
+export function createCard(figma: FigmaFake): FrameNode {
+  const buttonSet = createButtonSet(figma);
+  const primaryButton = buttonSet.children[0] as ComponentNode;
+
+  const background = figma.addPaintStyle('Neutral/Background', [solid(249, 250, 251)]);
+  const heading = figma.addTextStyle('Heading/Large', {
+    fontName: { family: 'Inter', style: 'Bold' },
+    fontSize: 24,
+    lineHeight: { unit: 'PIXELS', value: 32 },
+    letterSpacing: { unit: 'PIXELS', value: -0.5 }
+  });
+  const body = figma.addTextStyle('Body/Regular', {
+    fontSize: 14,
+    lineHeight: { unit: 'PERCENT', value: 150 }
+  });
+  const shadow = figma.addEffectStyle('Shadow/Card', [{
+    type: 'DROP_SHADOW',
+    color: { r: 0, g: 0, b: 0, a: 0.1 },
+    offset: { x: 0, y: 4 },
+    radius: 12,
+    spread: 0,
+    visible: true,
+    blendMode: 'NORMAL'
+  }]);
+
+  const spacing = figma.addVariableCollection('Spacing');
+  figma.addVariable(spacing, 'space/md', 'FLOAT', { Default: 16 });
+  figma.addVariable(spacing, 'radius/lg', 'FLOAT', { Default: 12 });
+
+  return figma.createFrame({
+    name: 'Product Card',
+    x: 400,
+    y: 0,
+    width: 320,
+    height: 420,
+    layoutMode: 'VERTICAL',
+    itemSpacing: 16,
+    paddingLeft: 16,
+    paddingRight: 16,
+    paddingTop: 16,
+    paddingBottom: 16,
+    cornerRadius: 12,
+    topLeftRadius: 12,
+    topRightRadius: 12,
+    bottomRightRadius: 12,
+    bottomLeftRadius: 12,
+    clipsContent: true,
+    fills: background.paints,
+    fillStyleId: background.id,
+    effects: shadow.effects,
+    effectStyleId: shadow.id,
+    children: [
+      figma.createRectangle({
+        name: 'Image',
+        x: 16,
+        y: 16,
+        width: 288,
+        height: 180,
+        layoutSizingHorizontal: 'FILL',
+        fills: [{ type: 'IMAGE', scaleMode: 'FILL', imageHash: 'product-image', visible: true, opacity: 1 }]
+      }),
+      figma.createText({
+        name: 'Title',
+        characters: 'Wireless Headphones',
+        x: 16,
+        y: 212,
+        width: 288,
+        height: 32,
+        fontName: heading.fontName,
+        fontSize: heading.fontSize,
+        lineHeight: heading.lineHeight,
+        letterSpacing: heading.letterSpacing,
+        textStyleId: heading.id,
+        fills: [solid(17, 24, 39)]
+      }),
+      figma.createText({
+        name: 'Description',
+        characters: 'Noise cancelling, 30 hour battery life.',
+        x: 16,
+        y: 260,
+        width: 288,
+        height: 42,
+        fontSize: body.fontSize,
+        lineHeight: body.lineHeight,
+        textStyleId: body.id,
+        fills: [solid(107, 114, 128)]
+      }),
+      figma.createInstance(primaryButton, {
+        name: 'Button',
+        x: 16,
+        y: 372,
+        width: primaryButton.width,
+        height: primaryButton.height
+      })
+    ]
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * @file tag.ts
+ * A tag component set with a Size variant plus a Label text property, a
+ * "Show icon" boolean property and an Icon instance swap property.
+ */
+
+import { FigmaFake, solid } from '../figma/figmaFake';
+
+export function createTagSet(figma: FigmaFake): ComponentSetNode {
+  const star = figma.createComponent({
+    name: 'Icon/Star',
+    width: 12,
+    height: 12,
+    children: [figma.createVector({ name: 'Star', width: 12, height: 12, fills: [solid(17, 24, 39)] })]
+  });
+
+  const variants = (['Small', 'Large'] as const).map(size => figma.createComponent({
+    name: `Size=${size}`,
+    width: size === 'Large' ? 80 : 64,
+    height: size === 'Large' ? 28 : 20,
+    layoutMode: 'HORIZONTAL',
+    counterAxisAlignItems: 'CENTER',
+    itemSpacing: 4,
+    paddingLeft: size === 'Large' ? 12 : 8,
+    paddingRight: size === 'Large' ? 12 : 8,
+    fills: [solid(243, 244, 246)],
+    children: [
+      figma.createInstance(star, {
+        name: 'Icon/Star',
+        componentPropertyReferences: { visible: 'Show icon#1:2', mainComponent: 'Icon#1:3' }
+      }),
+      figma.createText({
+        name: 'Label',
+        characters: 'Tag',
+        fontSize: size === 'Large' ? 14 : 12,
+        fills: [solid(17, 24, 39)],
+        componentPropertyReferences: { characters: 'Label#1:1' }
+      })
+    ]
+  }));
+
+  return figma.createComponentSet({
+    name: 'Tag',
+    width: 200,
+    height: 80,
+    componentPropertyDefinitions: {
+      Size: { type: 'VARIANT', defaultValue: 'Small', variantOptions: ['Small', 'Large'] },
+      'Label#1:1': { type: 'TEXT', defaultValue: 'Tag' },
+      'Show icon#1:2': { type: 'BOOLEAN', defaultValue: true },
+      'Icon#1:3': { type: 'INSTANCE_SWAP', defaultValue: star.id }
+    },
+    children: variants
+  });
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { extractGradient, gradientToCss } from '../src/utils/gradientUtils';
+
+const stops: ColorStop[] = [
+  { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+  { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } }
+];
+
+const paint = (type: GradientPaint['type'], gradientTransform: Transform): GradientPaint => ({
+  type,
+  gradientTransform,
+  gradientStops: stops,
+  visible: true,
+  opacity: 1,
+  blendMode: 'NORMAL'
+});
+
+describe('extractGradient', () => {
+  it('reads the direction of a linear gradient from its transform', () => {
+    const leftToRight = extractGradient(paint('GRADIENT_LINEAR', [[1, 0, 0], [0, 1, 0]]), 200, 100);
+    const topToBottom = extractGradient(paint('GRADIENT_LINEAR', [[0, 1, 0], [-1, 0, 1]]), 200, 100);
+
+    expect(leftToRight?.angle).toBe(90);
+    expect(leftToRight?.stops.map(stop => stop.position)).toEqual([0, 100]);
+    expect(topToBottom?.angle).toBe(180);
+  });
+
+  it('keeps the handle angle on non-square nodes', () => {
+    // Corner to corner on a 2:1 node is not 135deg
+    const diagonal = extractGradient(paint('GRADIENT_LINEAR', [[0.5, 0.5, 0], [-0.5, 0.5, 0.5]]), 200, 100);
+
+    expect(diagonal?.angle).toBe(117);
+    expect(diagonal?.stops.map(stop => stop.position)).toEqual([0, 100]);
+  });
+
+  it('folds the paint opacity into the stop colors', () => {
+    const gradient = extractGradient({ ...paint('GRADIENT_LINEAR', [[1, 0, 0], [0, 1, 0]]), opacity: 0.5 }, 100, 100);
+
+    expect(gradient?.stops[0].color).toBe('rgba(255, 0, 0, 0.5)');
+  });
+
+  it('formats radial and angular gradients as CSS', () => {
+    const radial = extractGradient(paint('GRADIENT_RADIAL', [[1, 0, 0], [0, 1, 0]]), 200, 100);
+    const angular = extractGradient(paint('GRADIENT_ANGULAR', [[1, 0, 0], [0, 1, 0]]), 200, 100);
+
+    expect(gradientToCss(radial!)).toBe('radial-gradient(50% 50% at 50% 50%, rgb(255, 0, 0) 0%, rgb(0, 0, 255) 100%)');
+    expect(gradientToCss(angular!)).toBe('conic-gradient(from 90deg at 50% 50%, rgb(255, 0, 0) 0%, rgb(0, 0, 255) 100%)');
+  });
+});
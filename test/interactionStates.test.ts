@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { analyzeComponentStructure } from '../src/services/variants/componentStructure';
+import { foldInteractionStates } from '../src/services/variants/interactionStates';
+import { generateReactComponent } from '../src/services/componentGenerator';
+import { getVariantPropsFromComponentSet } from '../src/services/variants/variantUtils';
+import { extractDesignTokens } from '../src/services/designTokenExtractor';
+import { FigmaFake, installFigmaFake, solid } from './figma/figmaFake';
+
+const BACKGROUNDS = {
+  Default: solid(37, 99, 235),
+  Hover: solid(29, 78, 216),
+  Disabled: solid(147, 197, 253)
+};
+
+function createLinkButtonSet(figma: FigmaFake): ComponentSetNode {
+  const variants = (['Default', 'Hover', 'Disabled'] as const).map(state => figma.createComponent({
+    name: `State=${state}`,
+    width: 96,
+    height: 36,
+    layoutMode: 'HORIZONTAL',
+    paddingLeft: 16,
+    paddingRight: 16,
+    fills: [BACKGROUNDS[state]],
+    children: [figma.createText({
+      name: 'Label',
+      characters: 'Continue',
+      fills: [state === 'Hover' ? solid(254, 240, 138) : solid(255, 255, 255)]
+    })]
+  }));
+
+  return figma.createComponentSet({ name: 'Link Button', children: variants });
+}
+
+// Card whose Hover state drops the default border and shadow and whose Pressed state
+// drops the background
+function createCardSet(figma: FigmaFake): ComponentSetNode {
+  const variants = (['Default', 'Hover', 'Pressed'] as const).map(state => figma.createComponent({
+    name: `State=${state}`,
+    width: 240,
+    height: 120,
+    fills: state === 'Pressed' ? [] : [solid(37, 99, 235)],
+    strokes: state === 'Default' ? [solid(209, 213, 219)] : [],
+    strokeWeight: state === 'Default' ? 1 : 0,
+    effects: state === 'Default' ? [{
+      type: 'DROP_SHADOW',
+      color: { r: 0, g: 0, b: 0, a: 0.1 },
+      offset: { x: 0, y: 4 },
+      radius: 6,
+      spread: 0,
+      visible: true,
+      blendMode: 'NORMAL'
+    }] : []
+  }));
+
+  return figma.createComponentSet({ name: 'Card', children: variants });
+}
+
+describe('foldInteractionStates', () => {
+  let figma: FigmaFake;
+
+  beforeEach(() => {
+    figma = installFigmaFake();
+  });
+
+  it('turns state variants into modifiers on the default state', async () => {
+    const componentSet = createLinkButtonSet(figma);
+    const tokens = await extractDesignTokens();
+    const variantProps = getVariantPropsFromComponentSet(componentSet);
+    const structure = await analyzeComponentStructure(componentSet, tokens, variantProps);
+
+    expect(foldInteractionStates(structure, variantProps, 'state')).toEqual({ variantProps: {}, disabled: true });
+    expect(Object.keys(structure.styles)).toEqual(['State=Default']);
+
+    const rootClasses = structure.styles['State=Default'].tailwindClasses.split(' ');
+    expect(rootClasses).toContain('group');
+    expect(rootClasses).toContain('hover:bg-blue-700');
+    expect(rootClasses).toContain('aria-disabled:bg-blue-300');
+    expect(structure.children[0].styles['State=Default'].tailwindClasses).toContain('group-hover:text-yellow-200');
+  });
+
+  it('resets the classes a state drops and keeps states it cannot fold', async () => {
+    const componentSet = createCardSet(figma);
+    const tokens = await extractDesignTokens();
+    const variantProps = getVariantPropsFromComponentSet(componentSet);
+    const structure = await analyzeComponentStructure(componentSet, tokens, variantProps);
+
+    expect(foldInteractionStates(structure, variantProps, 'State'))
+      .toEqual({ variantProps: { State: ['Default', 'Pressed'] }, disabled: false });
+    expect(Object.keys(structure.styles)).toEqual(['State=Default', 'State=Pressed']);
+
+    const rootClasses = structure.styles['State=Default'].tailwindClasses.split(' ');
+    expect(rootClasses).toContain('border');
+    expect(rootClasses).toContain('hover:border-0');
+    expect(rootClasses).toContain('hover:shadow-none');
+    expect(rootClasses.some(cls => cls.startsWith('active:'))).toBe(false);
+  });
+
+  it('leaves components without a default state alone', async () => {
+    const componentSet = createLinkButtonSet(figma);
+    const tokens = await extractDesignTokens();
+    const variantProps = { State: ['Hover', 'Disabled'] };
+    const structure = await analyzeComponentStructure(componentSet, tokens, variantProps);
+
+    expect(foldInteractionStates(structure, variantProps, 'State')).toEqual({ variantProps, disabled: false });
+  });
+
+  it('drops the state prop from the generated component', async () => {
+    const componentSet = createLinkButtonSet(figma);
+    const tokens = await extractDesignTokens();
+
+    const code = await generateReactComponent(componentSet, tokens);
+    expect(code).toContain('hover:bg-blue-700');
+    expect(code).not.toMatch(/\bstate\b/);
+  });
+
+  it('drives the disabled state with a disabled prop', async () => {
+    const componentSet = createLinkButtonSet(figma);
+    const tokens = await extractDesignTokens();
+
+    const code = await generateReactComponent(componentSet, tokens);
+    expect(code).toContain('  disabled?: boolean;');
+    expect(code).toContain('  disabled = false,');
+    expect(code).toContain('className)} aria-disabled={disabled} {...props}>');
+    expect(code).toContain('aria-disabled:bg-blue-300');
+    expect(code).not.toMatch(/(^|[\s"])disabled:/);
+  });
+});
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getComponentProps, getPositionStyles } from '../src/services/utils/nodeUtils';
+import { generateComponentBody } from '../src/services/components/componentBody';
+import { generatePropsInterface } from '../src/services/variants/interfaceGenerator';
+import { extractDesignTokens } from '../src/services/designTokenExtractor';
+import { FigmaFake, installFigmaFake, solid } from './figma/figmaFake';
+import { createTagSet } from './fixtures/tag';
+
+describe('getPositionStyles', () => {
+  let figma: FigmaFake;
+
+  beforeEach(() => {
+    figma = installFigmaFake();
+  });
+
+  const createBadge = (constraints: Constraints) => {
+    const badge = figma.createRectangle({ name: 'Badge', x: 260, y: 20, width: 40, height: 20, constraints });
+    figma.createFrame({ name: 'Card', width: 320, height: 200, children: [badge] });
+    return badge;
+  };
+
+  it('pins nodes to the right and bottom edges', () => {
+    expect(getPositionStyles(createBadge({ horizontal: 'MAX', vertical: 'MAX' })))
+      .toBe('absolute right-[20px] w-[40px] bottom-[160px] h-[20px]');
+  });
+
+  it('keeps centered nodes centered', () => {
+    const badge = createBadge({ horizontal: 'CENTER', vertical: 'CENTER' });
+    badge.x = 140;
+    expect(getPositionStyles(badge))
+      .toBe('absolute left-1/2 -translate-x-1/2 w-[40px] top-[calc(50%_-_70px)] -translate-y-1/2 h-[20px]');
+  });
+
+  it('uses percentages for scaled nodes and both edges for stretched ones', () => {
+    expect(getPositionStyles(createBadge({ horizontal: 'SCALE', vertical: 'STRETCH' })))
+      .toBe('absolute left-[81.25%] w-[12.5%] top-[20px] bottom-[160px]');
+  });
+
+  it('leaves auto layout children in the flow', () => {
+    const badge = figma.createRectangle({ name: 'Badge', width: 40, height: 20 });
+    figma.createFrame({ name: 'Row', layoutMode: 'HORIZONTAL', children: [badge] });
+    expect(getPositionStyles(badge)).toBe('');
+  });
+
+  it('positions children of frames without auto layout inside a relative parent', async () => {
+    const badge = figma.createRectangle({
+      name: 'Badge',
+      x: 260,
+      y: 20,
+      width: 40,
+      height: 20,
+      constraints: { horizontal: 'MAX', vertical: 'MIN' },
+      fills: [solid(220, 38, 38)]
+    });
+    const card = figma.createFrame({ name: 'Card', width: 320, height: 200, children: [badge] });
+    const tokens = await extractDesignTokens();
+
+    const body = await generateComponentBody(card, tokens);
+    expect(body).toMatch(/id="Card" className="[^"]*\brelative\b/);
+    expect(body).toContain('absolute right-[20px] w-[40px] top-[20px] h-[20px]');
+  });
+
+  it('rotates positioned nodes around the corner Figma pivots on', async () => {
+    const arrow = figma.createRectangle({
+      name: 'Arrow',
+      x: 100,
+      y: 40,
+      width: 24,
+      height: 8,
+      relativeTransform: [[0, -1, 100], [1, 0, 40]],
+      fills: [solid(17, 24, 39)]
+    });
+    const card = figma.createFrame({ name: 'Card', width: 320, height: 200, children: [arrow] });
+    const tokens = await extractDesignTokens();
+
+    expect(await generateComponentBody(card, tokens))
+      .toContain('rotate-90 origin-top-left absolute left-[100px] w-[24px] top-[40px] h-[8px]');
+  });
+});
+
+describe('getComponentProps', () => {
+  let figma: FigmaFake;
+
+  beforeEach(() => {
+    figma = installFigmaFake();
+  });
+
+  it('passes the values of text, boolean and instance swap properties', () => {
+    const tag = createTagSet(figma);
+    const heart = figma.createComponent({ name: 'Icon/Heart' });
+    const instance = figma.createInstance(tag.children[0] as ComponentNode, {
+      componentProperties: {
+        Size: { type: 'VARIANT', value: 'Small' },
+        'Label#1:1': { type: 'TEXT', value: 'Say "hi"' },
+        'Show icon#1:2': { type: 'BOOLEAN', value: false },
+        'Icon#1:3': { type: 'INSTANCE_SWAP', value: heart.id }
+      },
+      children: [
+        figma.createInstance(heart, { name: 'Icon/Heart', componentPropertyReferences: { mainComponent: 'Icon#1:3' } })
+      ]
+    });
+
+    expect(getComponentProps(instance)).toEqual([
+      'label={"Say \\"hi\\""}',
+      'showIcon={false}',
+      'icon={<IconHeart />}',
+      'size="small"'
+    ]);
+  });
+
+  it('passes on/off variant values as boolean props', () => {
+    const component = figma.createComponent({ name: 'Disabled=True, Has Icon=No, Mode=On' });
+    figma.createComponentSet({
+      name: 'Button',
+      children: [component],
+      componentPropertyDefinitions: {
+        Disabled: { type: 'VARIANT', defaultValue: 'False', variantOptions: ['False', 'True'] },
+        'Has Icon': { type: 'VARIANT', defaultValue: 'Yes', variantOptions: ['Yes', 'No'] },
+        Mode: { type: 'VARIANT', defaultValue: 'Auto', variantOptions: ['On', 'Off', 'Auto'] }
+      }
+    });
+
+    expect(getComponentProps(figma.createInstance(component), component))
+      .toEqual(['disabled', 'hasicon={false}', 'mode="on"']);
+
+    // The instance props match the props the variant component declares
+    const propsInterface = generatePropsInterface('Button', {
+      Disabled: ['False', 'True'],
+      'Has Icon': ['Yes', 'No'],
+      Mode: ['On', 'Off', 'Auto']
+    });
+    expect(propsInterface).toContain('  disabled?: boolean;\n  hasicon?: boolean;\n  mode?: "on" | "off" | "auto";\n');
+  });
+});
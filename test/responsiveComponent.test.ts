@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { generateResponsiveComponent } from '../src/services/responsive/responsiveComponent';
+import { mergeBreakpointClasses } from '../src/services/responsive/breakpointClasses';
+import { extractDesignTokens } from '../src/services/designTokenExtractor';
+import { DEFAULT_CODEGEN_OPTIONS, parseScreens } from '../src/utils/codegenOptions';
+import { FigmaFake, installFigmaFake, solid } from './figma/figmaFake';
+
+function createHero(figma: FigmaFake, name: string, width: number, horizontal: boolean): FrameNode {
+  const children: SceneNode[] = [
+    figma.createText({ name: 'Title', characters: 'Ship faster', fontSize: horizontal ? 48 : 30, fills: [solid(17, 24, 39)] }),
+    figma.createRectangle({
+      name: 'Image',
+      width: horizontal ? 480 : 343,
+      height: 240,
+      fills: [solid(229, 231, 235)]
+    })
+  ];
+  if (width >= 1440) {
+    children.push(figma.createText({ name: 'Caption', characters: 'Deploy in seconds', fills: [solid(107, 114, 128)] }));
+  }
+
+  return figma.createFrame({
+    name,
+    width,
+    height: 600,
+    layoutMode: horizontal ? 'HORIZONTAL' : 'VERTICAL',
+    itemSpacing: horizontal ? 32 : 16,
+    paddingLeft: 16,
+    paddingRight: 16,
+    fills: [solid(255, 255, 255)],
+    children
+  });
+}
+
+describe('generateResponsiveComponent', () => {
+  let figma: FigmaFake;
+
+  beforeEach(() => {
+    figma = installFigmaFake();
+  });
+
+  it('keeps the narrowest frame as the base and prefixes the differences', async () => {
+    const frames = [
+      createHero(figma, 'Hero / Desktop', 1440, true),
+      createHero(figma, 'Hero / Mobile', 375, false),
+      createHero(figma, 'Hero / Tablet', 768, true)
+    ];
+    const tokens = await extractDesignTokens();
+    const options = { ...DEFAULT_CODEGEN_OPTIONS, breakpoints: { md: 768, lg: 1440 } };
+
+    const code = await generateResponsiveComponent(frames, tokens, options);
+    expect(code).toContain('function Hero()');
+    expect(code).toContain('md:flex-row');
+    expect(code).toContain('hidden lg:block');
+    expect(code).toMatchSnapshot();
+  });
+});
+
+describe('mergeBreakpointClasses', () => {
+  it('resets utilities a wider breakpoint no longer uses', () => {
+    expect(mergeBreakpointClasses([
+      { prefix: '', classes: 'flex flex-col w-[343px] pt-4' },
+      { prefix: 'md', classes: 'flex flex-row pt-4' }
+    ])).toBe('flex flex-col w-[343px] pt-4 md:flex-row md:w-auto');
+  });
+
+  it('hides layers missing from a breakpoint and shows them again later', () => {
+    expect(mergeBreakpointClasses([
+      { prefix: '', classes: 'flex gap-2' },
+      { prefix: 'md', classes: null },
+      { prefix: 'lg', classes: 'flex gap-4' }
+    ])).toBe('flex gap-2 md:hidden lg:flex lg:gap-4');
+  });
+});
+
+describe('parseScreens', () => {
+  it('reads minimum widths from a Tailwind screens config', () => {
+    expect(parseScreens({ md: '768px', lg: { min: '64rem' }, print: { raw: 'print' }, mobile: { max: '639px' } }))
+      .toEqual({ md: 768, lg: 1024 });
+  });
+});
@@ -0,0 +1,8 @@
+import { beforeEach, vi } from 'vitest';
+import { installFigmaFake } from './figma/figmaFake';
+
+beforeEach(() => {
+  // The generators log every node they visit
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  installFigmaFake();
+});
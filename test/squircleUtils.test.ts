@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getSquirclePath } from '../src/utils/squircleUtils';
+import { stylesToTailwind } from '../src/transformers/stylesToTailwind';
+import { DEFAULT_CODEGEN_OPTIONS } from '../src/utils/codegenOptions';
+import { DesignTokens } from '../src/types/designTokenTypes';
+import { StyleProperties } from '../src/types/styleTypes';
+
+const emptyTokens: DesignTokens = {
+  colors: {},
+  typography: {},
+  spacing: {},
+  effects: {},
+  borderRadius: {},
+  borderWidth: {}
+};
+
+const card: StyleProperties = {
+  width: '100px',
+  height: '100px',
+  borderRadius: '16px',
+  cornerSmoothing: 0.6
+};
+
+describe('getSquirclePath', () => {
+  it('starts the smoothed curve (1 + smoothing) * radius from each corner', () => {
+    const path = getSquirclePath(100, 100, [16, 16, 16, 16], 0.6);
+    expect(path).toMatch(/^M 25.6 0 L 74.4 0 c 8.96 0 13.44 0 16.86 1.74 a 16 16 0 0 1 6.99 6.99 /);
+    expect(path).toContain('L 100 74.4');
+    expect(path).toContain('L 25.6 100');
+    expect(path).toMatch(/L 0 25.6 .* Z$/);
+  });
+
+  it('draws plain arcs without smoothing and square corners without a radius', () => {
+    expect(getSquirclePath(100, 40, [0, 12, 0, 0], 0))
+      .toBe('M 0 0 L 88 0 c 0 0 0 0 0 0 a 12 12 0 0 1 12 12 c 0 0 0 0 0 0 L 100 40 L 0 40 L 0 0 Z');
+  });
+});
+
+describe('corner smoothing classes', () => {
+  it('keeps the plain radius by default', () => {
+    expect(stylesToTailwind(card, emptyTokens)).not.toContain('clip-path');
+  });
+
+  it('clips fixed-size nodes to their smoothed corners when asked to', () => {
+    const options = { ...DEFAULT_CODEGEN_OPTIONS, cornerSmoothing: 'clip-path' as const };
+    expect(stylesToTailwind(card, emptyTokens, options))
+      .toMatch(/\[clip-path:path\('M_25\.6_0_L_74\.4_0_c_.*_Z'\)\]/);
+    expect(stylesToTailwind({ ...card, width: '100%' }, emptyTokens, options)).not.toContain('clip-path');
+  });
+});
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { extractDesignTokens } from '../src/services/designTokenExtractor';
+import { extractStyles } from '../src/services/styleExtractor';
+import { stylesToTailwind } from '../src/transformers/stylesToTailwind';
+import { FigmaFake, installFigmaFake, solid } from './figma/figmaFake';
+
+describe('extractStyles', () => {
+  let figma: FigmaFake;
+
+  beforeEach(() => {
+    figma = installFigmaFake();
+  });
+
+  it('composes stacked fills top layer first', async () => {
+    const frame = figma.createFrame({
+      width: 200,
+      height: 100,
+      fills: [
+        solid(255, 255, 255),
+        { type: 'IMAGE', scaleMode: 'FILL', imageHash: 'hero', visible: true, opacity: 1 },
+        { ...solid(0, 0, 0, 0.4), blendMode: 'MULTIPLY' },
+        { ...solid(255, 0, 0), visible: false }
+      ]
+    });
+
+    const styles = await extractStyles(frame);
+
+    expect(styles.backgroundColor).toBe('rgb(255, 255, 255)');
+    expect(styles.backgroundLayers).toEqual([
+      { type: 'color', color: 'rgba(0, 0, 0, 0.4)', blendMode: 'multiply' },
+      { type: 'image', imageHash: 'hero', size: 'cover', blendMode: undefined }
+    ]);
+  });
+
+  it('keeps a single fill as the background color', async () => {
+    const frame = figma.createFrame({ fills: [solid(255, 255, 255), { ...solid(0, 0, 0), visible: false }] });
+
+    const styles = await extractStyles(frame);
+
+    expect(styles.backgroundColor).toBe('rgb(255, 255, 255)');
+    expect(styles.backgroundLayers).toBeUndefined();
+  });
+
+  it('takes mixed text styles from the longest run', async () => {
+    const text = figma.createText({ fontSize: 16 });
+    figma.setTextSegments(text, [
+      { characters: 'Save ' },
+      { characters: '20%', fontSize: 24, fontWeight: 700 },
+      { characters: ' on every order' }
+    ]);
+
+    const styles = await extractStyles(text);
+
+    expect(styles.fontSize).toBe('16px');
+    expect(styles.fontWeight).toBe('400');
+    expect(styles.textSegments?.map(segment => segment.element)).toEqual(['span', 'strong', 'span']);
+    expect(styles.textSegments?.[1].styles).toEqual({ fontSize: '24px', fontWeight: '700', styleReferences: {} });
+    expect(styles.textSegments?.[2].styles).toEqual({ styleReferences: {} });
+  });
+
+  it('resets the text styles of the node in runs without them', async () => {
+    const text = figma.createText({ fontSize: 16 });
+    figma.setTextSegments(text, [
+      { characters: 'Read the ', fontName: { family: 'Inter', style: 'Bold Italic' }, fontWeight: 700, textDecoration: 'UNDERLINE', textCase: 'UPPER' },
+      { characters: 'terms' },
+      { characters: ' before you continue', fontName: { family: 'Inter', style: 'Bold Italic' }, fontWeight: 700, textDecoration: 'UNDERLINE', textCase: 'UPPER' }
+    ]);
+
+    const styles = await extractStyles(text);
+
+    expect(styles).toMatchObject({ italic: true, fontWeight: '700', textDecoration: 'underline', textCase: 'uppercase' });
+    expect(styles.textSegments?.[1].styles).toMatchObject({
+      italic: false,
+      fontWeight: '400',
+      textDecoration: 'no-underline',
+      textCase: 'normal-case'
+    });
+    expect(stylesToTailwind(styles.textSegments![1].styles, await extractDesignTokens())).toBe('font-normal not-italic normal-case no-underline');
+  });
+
+  it('reads text case, decoration and truncation', async () => {
+    const text = figma.createText({
+      characters: 'Order #1042 shipped',
+      textCase: 'UPPER',
+      textDecoration: 'UNDERLINE',
+      textTruncation: 'ENDING',
+      maxLines: 3
+    });
+
+    const styles = await extractStyles(text);
+
+    expect(styles.textCase).toBe('uppercase');
+    expect(styles.textDecoration).toBe('underline');
+    expect(styles.textTruncation).toBe('ending');
+    expect(styles.maxLines).toBe(3);
+  });
+
+  it('reads grid auto layout and the spans of its children', async () => {
+    const wide = Object.assign(figma.createFrame({ name: 'Wide' }), { gridColumnSpan: 2, gridRowSpan: 1 });
+    const grid = Object.assign(figma.createFrame({ children: [wide] }), {
+      layoutMode: 'GRID',
+      gridColumnCount: 3,
+      gridRowCount: 2,
+      gridColumnGap: 16,
+      gridRowGap: 24
+    });
+
+    const styles = await extractStyles(grid);
+    const childStyles = await extractStyles(wide);
+
+    expect(styles).toMatchObject({ display: 'grid', gridColumns: 3, gridRows: 2, columnGap: '16px', rowGap: '24px' });
+    expect(styles.flexDirection).toBeUndefined();
+    expect(childStyles.gridColumnSpan).toBe(2);
+    expect(childStyles.gridRowSpan).toBeUndefined();
+  });
+
+  it('leaves frames without auto layout out of flex', async () => {
+    const styles = await extractStyles(figma.createFrame({ layoutMode: 'NONE', itemSpacing: 8 }));
+
+    expect(styles.display).toBeUndefined();
+    expect(styles.gap).toBeUndefined();
+  });
+
+  it('sizes auto layout children by their hug, fill and fixed sizing', async () => {
+    const hug = figma.createFrame({ width: 80, height: 40, layoutSizingHorizontal: 'HUG', layoutSizingVertical: 'HUG' });
+    const fill = figma.createFrame({ width: 200, height: 40, layoutSizingHorizontal: 'FILL', layoutSizingVertical: 'FILL' });
+    const fixed = figma.createFrame({ width: 120, height: 40 });
+    figma.createFrame({ layoutMode: 'HORIZONTAL', children: [hug, fill, fixed] });
+
+    const hugStyles = await extractStyles(hug);
+    const fillStyles = await extractStyles(fill);
+    const fixedStyles = await extractStyles(fixed);
+
+    expect(hugStyles.width).toBeUndefined();
+    expect(hugStyles.height).toBeUndefined();
+    expect(fillStyles).toMatchObject({ flex: '1', alignSelf: 'stretch' });
+    expect(fillStyles.width).toBeUndefined();
+    expect(fillStyles.flexGrow).toBeUndefined();
+    expect(fixedStyles).toMatchObject({ width: '120px', height: '40px' });
+  });
+
+  it('keeps per-side stroke weights', async () => {
+    const divider = figma.createFrame({
+      strokes: [solid(229, 231, 235)],
+      strokeWeight: figma.api.mixed,
+      strokeTopWeight: 0,
+      strokeRightWeight: 0,
+      strokeBottomWeight: 1,
+      strokeLeftWeight: 0
+    });
+
+    const styles = await extractStyles(divider);
+
+    expect(styles.strokeWeight).toBe('1px');
+    expect(styles.borderWidths).toEqual({ top: 0, right: 0, bottom: 1, left: 0 });
+  });
+});
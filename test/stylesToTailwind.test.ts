@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import { stylesToTailwind } from '../src/transformers/stylesToTailwind';
+import { StyleProperties } from '../src/types/styleTypes';
+import { DesignTokens } from '../src/types/designTokenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../src/utils/codegenOptions';
+
+const tokens: DesignTokens = {
+  colors: {
+    'Brand/Primary': { value: 'rgb(59, 130, 246)', type: 'color' },
+    'Neutral/Border': { value: 'rgb(229, 231, 235)', type: 'color' }
+  },
+  typography: {
+    'Body/Regular': {
+      value: { fontFamily: 'Inter', fontSize: 14, fontWeight: 'Regular', lineHeight: '150%', letterSpacing: 0 },
+      type: 'typography'
+    }
+  },
+  spacing: {
+    'space/md': { value: 16, type: 'spacing' }
+  },
+  effects: {},
+  borderRadius: {
+    'radius/lg': { value: 12, type: 'borderRadius' }
+  },
+  borderWidth: {}
+};
+
+const card: StyleProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '16px',
+  paddingTop: '16px',
+  paddingRight: '16px',
+  paddingBottom: '16px',
+  paddingLeft: '16px',
+  width: '320px',
+  height: '420px',
+  backgroundColor: 'rgb(59, 130, 246)',
+  borderRadius: '12px',
+  overflow: 'hidden'
+};
+
+const label: StyleProperties = {
+  color: 'rgb(17, 24, 39)',
+  fontSize: '14px',
+  fontWeight: '500',
+  lineHeight: '20px',
+  letterSpacing: '-0.5px',
+  textAlign: 'center'
+};
+
+const withReferences: StyleProperties = {
+  backgroundColor: 'rgb(59, 130, 246)',
+  border: '1px solid rgb(229, 231, 235)',
+  styleReferences: { fill: 'Brand/Primary', stroke: 'Neutral/Border' },
+  variableReferences: { paddingLeft: 'space/md', borderRadius: 'radius/lg' }
+};
+
+const linearGradient: StyleProperties = {
+  backgroundGradient: {
+    type: 'linear',
+    angle: 90,
+    center: { x: 50, y: 50 },
+    radius: { x: 50, y: 50 },
+    stops: [
+      { color: 'rgb(59, 130, 246)', position: 0 },
+      { color: 'rgb(255, 255, 255)', position: 40 },
+      { color: 'rgb(12, 34, 56)', position: 100 }
+    ]
+  }
+};
+
+describe('stylesToTailwind', () => {
+  it('matches colors within 10 of a color token to the token', () => {
+    const background = (backgroundColor: string) => stylesToTailwind({ backgroundColor }, tokens);
+
+    expect(background('rgb(59, 130, 246)')).toBe('bg-brand-primary');
+    expect(background('#3b82f6')).toBe('bg-brand-primary');
+    expect(background('rgb(62, 133, 246)')).toBe('bg-brand-primary');
+    expect(background('rgb(37, 99, 235)')).toBe('bg-blue-600');
+  });
+
+  it('matches colors within 30 of a palette color to the nearest shade', () => {
+    const paletteOnly: DesignTokens = { ...tokens, colors: {} };
+    const background = (backgroundColor: string) => stylesToTailwind({ backgroundColor }, paletteOnly);
+
+    expect(background('rgb(17, 24, 39)')).toBe('bg-gray-900');
+    expect(background('#111827')).toBe('bg-gray-900');
+    expect(background('rgba(17, 24, 39, 0.5)')).toBe('bg-gray-900/50');
+    expect(background('rgb(243, 244, 246)')).toBe('bg-white');
+    expect(background('rgb(5, 5, 5)')).toBe('bg-black');
+    expect(background('rgb(120, 60, 90)')).toBe('bg-[rgb(120,60,90)]');
+  });
+
+  it('converts layout and spacing styles', () => {
+    expect(stylesToTailwind(card, tokens)).toMatchSnapshot();
+  });
+
+  it('converts typography styles', () => {
+    expect(stylesToTailwind(label, tokens)).toMatchSnapshot();
+  });
+
+  it('prefers style and variable references over raw values', () => {
+    expect(stylesToTailwind(withReferences, tokens)).toMatchSnapshot();
+  });
+
+  it('uses arbitrary values when token classes are turned off', () => {
+    const options = { ...DEFAULT_CODEGEN_OPTIONS, classNameStrategy: 'arbitrary' as const };
+    expect(stylesToTailwind(card, tokens, options)).toMatchSnapshot();
+    expect(stylesToTailwind(withReferences, tokens, options)).toMatchSnapshot();
+  });
+
+  it('renames classes for Tailwind v4', () => {
+    const options = { ...DEFAULT_CODEGEN_OPTIONS, tailwindVersion: 'v4' as const };
+    expect(stylesToTailwind({ ...card, borderRadius: '4px' }, tokens, options)).toMatchSnapshot();
+  });
+
+  it('converts arbitrary lengths to rem', () => {
+    const options = { ...DEFAULT_CODEGEN_OPTIONS, classNameStrategy: 'arbitrary' as const, unit: 'rem' as const };
+    expect(stylesToTailwind(card, tokens, options)).toMatchSnapshot();
+  });
+
+  it('converts linear gradients to gradient utilities', () => {
+    expect(stylesToTailwind(linearGradient, tokens)).toMatchSnapshot();
+    expect(stylesToTailwind(linearGradient, tokens, { ...DEFAULT_CODEGEN_OPTIONS, tailwindVersion: 'v4' })).toMatchSnapshot();
+  });
+
+  it('falls back to arbitrary gradients for angles and types without utilities', () => {
+    const angled = { backgroundGradient: { ...linearGradient.backgroundGradient!, angle: 117 } };
+    const radial = { backgroundGradient: { ...linearGradient.backgroundGradient!, type: 'radial' as const } };
+
+    expect(stylesToTailwind(angled, tokens)).toMatchSnapshot();
+    expect(stylesToTailwind(angled, tokens, { ...DEFAULT_CODEGEN_OPTIONS, tailwindVersion: 'v4' })).toMatchSnapshot();
+    expect(stylesToTailwind(radial, tokens)).toMatchSnapshot();
+  });
+
+  it('layers stacked fills over the background color', () => {
+    const stacked: StyleProperties = {
+      backgroundColor: 'rgb(59, 130, 246)',
+      backgroundLayers: [
+        { type: 'color', color: 'rgba(0, 0, 0, 0.4)', blendMode: 'multiply' },
+        { type: 'image', imageHash: 'hero', size: 'cover' }
+      ]
+    };
+
+    expect(stylesToTailwind(stacked, tokens)).toMatchSnapshot();
+  });
+
+  it('converts shadows and blurs', () => {
+    const effects: StyleProperties = {
+      boxShadow: 'inset 0px 1px 2px 0px rgba(0, 0, 0, 0.05), 0px 4px 12px 0px rgba(0, 0, 0, 0.1)',
+      blur: '8px',
+      backdropBlur: '4px'
+    };
+
+    expect(stylesToTailwind(effects, tokens)).toMatchSnapshot();
+    expect(stylesToTailwind(effects, tokens, { ...DEFAULT_CODEGEN_OPTIONS, tailwindVersion: 'v4' })).toMatchSnapshot();
+    expect(stylesToTailwind({ blur: '6px' }, tokens)).toBe('blur-[6px]');
+  });
+
+  it('uses its own v4 backdrop blur token for effect styles with both blurs', () => {
+    const glassTokens: DesignTokens = {
+      ...tokens,
+      effects: { glass: { value: { shadows: [], layerBlur: 2, backgroundBlur: 12 }, type: 'effect' } }
+    };
+    const glass: StyleProperties = { blur: '2px', backdropBlur: '12px', styleReferences: { effect: 'glass' } };
+
+    expect(stylesToTailwind(glass, glassTokens)).toBe('blur-glass backdrop-blur-glass');
+    expect(stylesToTailwind(glass, glassTokens, { ...DEFAULT_CODEGEN_OPTIONS, tailwindVersion: 'v4' }))
+      .toBe('blur-glass backdrop-blur-glass-backdrop');
+  });
+
+  it('converts text case, decoration, paragraph spacing and truncation', () => {
+    const text: StyleProperties = {
+      textCase: 'uppercase',
+      textDecoration: 'underline',
+      paragraphIndent: '16px',
+      paragraphSpacing: '8px',
+      textTruncation: 'ending'
+    };
+
+    expect(stylesToTailwind(text, tokens)).toBe('uppercase underline indent-4 space-y-2 truncate');
+    expect(stylesToTailwind({ textTruncation: 'ending', maxLines: 2 }, tokens)).toBe('line-clamp-2');
+    expect(stylesToTailwind({ textCase: 'small-caps' }, tokens)).toBe('[font-variant-caps:small-caps]');
+  });
+
+  it('converts grid layouts', () => {
+    const grid: StyleProperties = { display: 'grid', gridColumns: 3, gridRows: 2, columnGap: '16px', rowGap: '24px' };
+
+    expect(stylesToTailwind(grid, tokens)).toBe('grid grid-cols-3 grid-rows-2 gap-x-4 gap-y-6');
+    expect(stylesToTailwind({ gridColumnSpan: 2, gridRowSpan: 3 }, tokens)).toBe('col-span-2 row-span-3');
+    expect(stylesToTailwind({ display: 'grid', gridColumns: 16 }, tokens)).toBe('grid grid-cols-[repeat(16,minmax(0,1fr))]');
+  });
+
+  it('keeps flex child sizing next to the flex direction', () => {
+    const row: StyleProperties = { display: 'flex', flexDirection: 'row', flex: '1', alignSelf: 'stretch' };
+
+    expect(stylesToTailwind(row, tokens)).toBe('flex flex-row self-stretch flex-1');
+  });
+
+  it('converts strokes to borders, inset rings or outlines', () => {
+    const stroke: StyleProperties = { strokeWeight: '2px', border: '2px solid rgb(209, 213, 219)', strokeAlign: 'INSIDE' };
+
+    expect(stylesToTailwind(stroke, tokens)).toBe('border-2 border-gray-300');
+    expect(stylesToTailwind({ ...stroke, strokesIncludedInLayout: false }, tokens)).toBe('ring-2 ring-inset ring-gray-300');
+    expect(stylesToTailwind({ ...stroke, strokeAlign: 'OUTSIDE' }, tokens)).toBe('outline outline-2 outline-gray-300');
+    expect(stylesToTailwind({ ...stroke, strokeAlign: 'CENTER', borderStyle: 'dashed' }, tokens))
+      .toBe('outline-dashed outline-2 -outline-offset-1 outline-gray-300');
+    expect(stylesToTailwind({ ...stroke, borderWidths: { top: 0, right: 0, bottom: 1, left: 0 } }, tokens))
+      .toBe('border-b border-gray-300');
+  });
+});
+
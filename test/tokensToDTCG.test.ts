@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { generateDtcgTokens } from '../src/transformers/tokensToDTCG';
+import { DesignTokens } from '../src/types/designTokenTypes';
+
+const emptyTokens: DesignTokens = {
+  colors: {},
+  typography: {},
+  spacing: {},
+  effects: {},
+  borderRadius: {},
+  borderWidth: {}
+};
+
+describe('generateDtcgTokens', () => {
+  it('keeps a token whose path is also a group as the group\'s DEFAULT token', () => {
+    const tokens: DesignTokens = {
+      ...emptyTokens,
+      colors: {
+        'brand': { value: '#2563eb', type: 'color' },
+        'brand/hover': { value: '#1d4ed8', type: 'color' },
+        'accent/light': { value: '#fef08a', type: 'color' },
+        'accent': { value: '#facc15', type: 'color' },
+        'link': { value: '#2563eb', type: 'color', reference: { category: 'colors', name: 'brand' } }
+      }
+    };
+
+    expect(JSON.parse(generateDtcgTokens(tokens)).color).toEqual({
+      brand: {
+        DEFAULT: { $value: '#2563eb', $type: 'color' },
+        hover: { $value: '#1d4ed8', $type: 'color' }
+      },
+      accent: {
+        light: { $value: '#fef08a', $type: 'color' },
+        DEFAULT: { $value: '#facc15', $type: 'color' }
+      },
+      link: { $value: '{color.brand.DEFAULT}', $type: 'color' }
+    });
+  });
+});
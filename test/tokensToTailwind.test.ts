@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { generateTailwindConfig } from '../src/transformers/tokensToTailwind';
+import { DesignTokens } from '../src/types/designTokenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../src/utils/codegenOptions';
+
+const emptyTokens: DesignTokens = {
+  colors: {},
+  typography: {},
+  spacing: {},
+  effects: {},
+  borderRadius: {},
+  borderWidth: {}
+};
+
+const parseConfig = (config: string) => JSON.parse(config.replace('module.exports = ', ''));
+
+describe('generateTailwindConfig', () => {
+  it('replaces the default screens with the configured breakpoints', () => {
+    const options = { ...DEFAULT_CODEGEN_OPTIONS, breakpoints: { md: 768, lg: 1440 } };
+
+    expect(parseConfig(generateTailwindConfig(emptyTokens, options)).theme.screens)
+      .toEqual({ md: '768px', lg: '1440px' });
+    expect(parseConfig(generateTailwindConfig(emptyTokens)).theme.screens).toBeUndefined();
+  });
+});
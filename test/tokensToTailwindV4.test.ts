@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { generateTailwindTheme } from '../src/transformers/tokensToTailwindV4';
+import { DesignTokens } from '../src/types/designTokenTypes';
+import { DEFAULT_CODEGEN_OPTIONS } from '../src/utils/codegenOptions';
+
+const emptyTokens: DesignTokens = {
+  colors: {},
+  typography: {},
+  spacing: {},
+  effects: {},
+  borderRadius: {},
+  borderWidth: {}
+};
+
+describe('generateTailwindTheme', () => {
+  it('declares the blurs of an effect style with both blurs as separate tokens', () => {
+    const tokens: DesignTokens = {
+      ...emptyTokens,
+      effects: {
+        glass: { value: { shadows: [], layerBlur: 2, backgroundBlur: 12 }, type: 'effect' },
+        frosted: { value: { shadows: [], backgroundBlur: 8 }, type: 'effect' }
+      }
+    };
+
+    const css = generateTailwindTheme(tokens);
+    expect(css).toContain('  --blur-glass: 2px;\n  --blur-glass-backdrop: 12px;\n');
+    expect(css).toContain('  --blur-frosted: 8px;\n');
+  });
+
+  it('replaces the default breakpoints with the configured ones', () => {
+    const options = { ...DEFAULT_CODEGEN_OPTIONS, breakpoints: { md: 768, lg: 1440 } };
+
+    expect(generateTailwindTheme(emptyTokens, options))
+      .toContain('  --breakpoint-*: initial;\n  --breakpoint-md: 768px;\n  --breakpoint-lg: 1440px;\n');
+    expect(generateTailwindTheme(emptyTokens)).not.toContain('--breakpoint-');
+  });
+});
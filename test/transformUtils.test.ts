@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { decomposeTransform } from '../src/utils/transformUtils';
+import { stylesToTailwind } from '../src/transformers/stylesToTailwind';
+import { DesignTokens } from '../src/types/designTokenTypes';
+
+const rotation = (degrees: number, x = 0, y = 0): Transform => {
+  const radians = degrees * Math.PI / 180;
+  return [
+    [Math.cos(radians), -Math.sin(radians), x],
+    [Math.sin(radians), Math.cos(radians), y]
+  ];
+};
+
+const emptyTokens: DesignTokens = {
+  colors: {},
+  typography: {},
+  spacing: {},
+  effects: {},
+  borderRadius: {},
+  borderWidth: {}
+};
+
+describe('decomposeTransform', () => {
+  it('ignores translation-only transforms', () => {
+    expect(decomposeTransform([[1, 0, 40], [0, 1, 12]])).toBeNull();
+  });
+
+  it('reads clockwise rotation', () => {
+    expect(decomposeTransform(rotation(45, 10, 20))).toEqual({ rotate: 45, skewX: 0, scaleX: 1, scaleY: 1 });
+    expect(decomposeTransform(rotation(-30))).toEqual({ rotate: -30, skewX: 0, scaleX: 1, scaleY: 1 });
+  });
+
+  it('turns mirroring into a negative scale instead of a half turn', () => {
+    expect(decomposeTransform([[-1, 0, 24], [0, 1, 0]])).toEqual({ rotate: 0, skewX: 0, scaleX: -1, scaleY: 1 });
+    expect(decomposeTransform([[1, 0, 0], [0, -1, 24]])).toEqual({ rotate: 0, skewX: 0, scaleX: 1, scaleY: -1 });
+  });
+
+  it('separates skew from rotation', () => {
+    const skew = Math.tan(12 * Math.PI / 180);
+    expect(decomposeTransform([[1, skew, 0], [0, 1, 0]])).toEqual({ rotate: 0, skewX: 12, scaleX: 1, scaleY: 1 });
+  });
+});
+
+describe('transform classes', () => {
+  it('uses named utilities where they exist and keeps the pivot of positioned nodes', () => {
+    const classes = stylesToTailwind({
+      transform: { rotate: -45, skewX: 0, scaleX: -1, scaleY: 1 },
+      transformOrigin: 'top left'
+    }, emptyTokens);
+
+    expect(classes).toBe('-rotate-45 -scale-x-100 origin-top-left');
+  });
+
+  it('falls back to arbitrary angles', () => {
+    expect(stylesToTailwind({ transform: { rotate: 17.5, skewX: 0, scaleX: 1, scaleY: 1 } }, emptyTokens))
+      .toBe('rotate-[17.5deg]');
+  });
+});
@@ -56,11 +56,16 @@ export default defineConfig({
     minify: false,
     assetsInlineLimit: 100000000,
     chunkSizeWarningLimit: 100000000,
+    // The offline runner is a Node script rather than part of the plugin bundle
+    ...(entryPoint === 'offline' ? { ssr: true, target: 'node18' } : {}),
     rollupOptions: {
       input: entryPoint === 'ui' 
         ? resolve(__dirname, 'src/ui/index.html')
-        : resolve(__dirname, 'src/code.ts'),
+        : entryPoint === 'offline'
+          ? { offline: resolve(__dirname, 'src/offline/cli.ts') }
+          : resolve(__dirname, 'src/code.ts'),
       output: {
+        ...(entryPoint === 'offline' ? { format: 'cjs' as const } : {}),
         entryFileNames: '[name].js',
         chunkFileNames: '[name].js',
         assetFileNames: '[name].[ext]',
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// https://vitest.dev/config/
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    setupFiles: ['test/setup.ts']
+  }
+});